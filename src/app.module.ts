@@ -10,14 +10,17 @@ import { LogModule } from './modules/log/log.module';
 import { AccessoriesModule } from './modules/accessories/accessories.module';
 import { ConfigEditorModule } from './modules/config-editor/config-editor.module';
 import { AuthModule } from './core/auth/auth.module';
+import { AuditModule } from './core/audit/audit.module';
 import { ServerModule } from './modules/server/server.module';
 import { PlatformToolsModule } from './modules/platform-tools/platform-tools.module';
+import { BackupModule } from './modules/backup/backup.module';
 
 @Module({
   imports: [
     ConfigModule,
     LoggerModule,
     AuthModule,
+    AuditModule,
     ServerModule,
     PluginsModule,
     UsersModule,
@@ -25,6 +28,7 @@ import { PlatformToolsModule } from './modules/platform-tools/platform-tools.mod
     AccessoriesModule,
     ConfigEditorModule,
     PlatformToolsModule,
+    BackupModule,
     LogModule,
   ],
   controllers: [AppController],
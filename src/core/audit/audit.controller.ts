@@ -0,0 +1,50 @@
+import { Controller, UseGuards, Get, Query, Res } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { AuditService } from './audit.service';
+import { AuditQueryDto } from './audit.dto';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { Permissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../auth/permissions';
+
+@UseGuards(AuthGuard())
+@Controller('audit')
+export class AuditController {
+  constructor(
+    private readonly auditService: AuditService,
+  ) { }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.AUDIT_VIEW)
+  @Get()
+  getEntries(@Query() query: AuditQueryDto) {
+    return this.auditService.getEntries({
+      username: query.username,
+      action: query.action,
+      from: query.from,
+      to: query.to,
+      limit: query.limit ? parseInt(query.limit, 10) : 500,
+    });
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.AUDIT_VIEW)
+  @Get('/export')
+  async exportEntries(@Query() query: AuditQueryDto, @Res() res) {
+    const filter = {
+      username: query.username,
+      action: query.action,
+      from: query.from,
+      to: query.to,
+    };
+
+    if (query.format === 'json') {
+      res.header('Content-Disposition', 'attachment; filename="homebridge-audit-log.json"');
+      res.type('application/json');
+      return res.send(JSON.stringify(await this.auditService.getEntries(filter), null, 2));
+    }
+
+    res.header('Content-Disposition', 'attachment; filename="homebridge-audit-log.csv"');
+    res.type('text/csv');
+    return res.send(await this.auditService.exportCsv(filter));
+  }
+}
@@ -0,0 +1,27 @@
+import { IsString, IsOptional, IsISO8601, IsNumberString, IsIn } from 'class-validator';
+
+export class AuditQueryDto {
+  @IsString()
+  @IsOptional()
+  readonly username?: string;
+
+  @IsString()
+  @IsOptional()
+  readonly action?: string;
+
+  @IsISO8601()
+  @IsOptional()
+  readonly from?: string;
+
+  @IsISO8601()
+  @IsOptional()
+  readonly to?: string;
+
+  @IsNumberString()
+  @IsOptional()
+  readonly limit?: string;
+
+  @IsIn(['csv', 'json'])
+  @IsOptional()
+  readonly format?: 'csv' | 'json';
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { ConfigModule } from '../config/config.module';
+import { LoggerModule } from '../logger/logger.module';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+
+@Module({
+  imports: [
+    PassportModule.register({ defaultStrategy: 'jwt' }),
+    ConfigModule,
+    LoggerModule,
+  ],
+  providers: [
+    AuditService,
+  ],
+  controllers: [
+    AuditController,
+  ],
+  exports: [
+    AuditService,
+  ],
+})
+export class AuditModule { }
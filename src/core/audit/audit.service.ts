@@ -0,0 +1,218 @@
+import * as fs from 'fs-extra';
+import * as readline from 'readline';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { Logger } from '../logger/logger.service';
+import { getClientAddress } from '../auth/client-address';
+
+export interface AuditEntryInterface {
+  timestamp: string;
+  username: string;
+  ip: string;
+  action: string;
+  target?: string;
+  apiToken?: string;
+  details?: { [key: string]: any };
+}
+
+export interface AuditFilterInterface {
+  username?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+@Injectable()
+export class AuditService {
+  // writes are queued so entries are never interleaved
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // the log is rotated once it reaches 5 MB, the 3 most recent rotated logs are kept as .1, .2 and .3
+  private readonly maxLogSize = 5 * 1024 * 1024;
+  private readonly keepRotatedLogs = 3;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Record an action performed by the user making a http request
+   * @param req
+   * @param action
+   * @param target
+   * @param details
+   */
+  async logRequest(req, action: string, target?: string, details?: { [key: string]: any }) {
+    const ip = getClientAddress(req.ip, req.headers, this.configService.ui.trustedProxies);
+    return this.record(req.user, ip, action, target, details);
+  }
+
+  /**
+   * Record an action performed by the user connected to a websocket
+   * @param client
+   * @param action
+   * @param target
+   * @param details
+   */
+  async logClient(client, action: string, target?: string, details?: { [key: string]: any }) {
+    const handshake = client.handshake || {};
+    const ip = getClientAddress(handshake.address, handshake.headers, this.configService.ui.trustedProxies);
+    return this.record(client.user, ip, action, target, details);
+  }
+
+  /**
+   * Returns the entries matching the filter, newest first
+   * The logs are read a line at a time, oldest first, so only the matching entries are held in memory
+   * @param filter
+   */
+  async getEntries(filter: AuditFilterInterface = {}): Promise<AuditEntryInterface[]> {
+    const from = filter.from ? new Date(filter.from).getTime() : null;
+    const to = filter.to ? new Date(filter.to).getTime() : null;
+
+    const entries: AuditEntryInterface[] = [];
+
+    const paths = this.getLogPaths().reverse();
+    for (const logPath of paths) {
+      if (!await fs.pathExists(logPath)) {
+        continue;
+      }
+
+      await this.readLines(logPath, (line) => {
+        if (!line.trim()) {
+          return;
+        }
+
+        let entry: AuditEntryInterface;
+        try {
+          entry = JSON.parse(line);
+        } catch (e) {
+          return;
+        }
+
+        const timestamp = new Date(entry.timestamp).getTime();
+
+        if ((filter.username && entry.username !== filter.username) ||
+          (filter.action && !entry.action.startsWith(filter.action)) ||
+          (from && timestamp < from) ||
+          (to && timestamp > to)) {
+          return;
+        }
+
+        entries.push(entry);
+
+        // only the most recent entries are returned, so older matches can be dropped as soon as there are too many
+        if (filter.limit && entries.length > filter.limit) {
+          entries.shift();
+        }
+      });
+    }
+
+    return entries.reverse();
+  }
+
+  /**
+   * Returns the entries matching the filter as a csv file
+   * @param filter
+   */
+  async exportCsv(filter: AuditFilterInterface = {}): Promise<string> {
+    const columns = ['timestamp', 'username', 'ip', 'action', 'target', 'apiToken', 'details'];
+    const entries = await this.getEntries(filter);
+
+    const escape = (value) => {
+      if (value === undefined || value === null) {
+        return '';
+      }
+      let str = typeof value === 'string' ? value : JSON.stringify(value);
+
+      // spreadsheet apps run cells that start with these characters as formulas, the quote makes them plain text
+      if (/^[=+\-@\t\r]/.test(str)) {
+        str = `'${str}`;
+      }
+
+      return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+
+    return [columns.join(',')]
+      .concat(entries.map(entry => columns.map(column => escape(entry[column])).join(',')))
+      .join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Append an entry to the audit log
+   */
+  private record(user, ip: string, action: string, target?: string, details?: { [key: string]: any }) {
+    const entry: AuditEntryInterface = {
+      timestamp: new Date().toISOString(),
+      username: user ? user.username : null,
+      ip: ip ? ip.replace(/^::ffff:/, '') : null,
+      action,
+      target,
+      apiToken: user && user.tid ? user.tid : undefined,
+      details,
+    };
+
+    this.writeQueue = this.writeQueue
+      .then(() => this.rotateLog())
+      .then(() => fs.appendFile(this.configService.auditLogPath, JSON.stringify(entry) + '\n', { mode: 0o600 }))
+      .catch((e) => {
+        this.logger.error(`Failed to write to the audit log: ${e.message}`);
+      });
+
+    return this.writeQueue;
+  }
+
+  /**
+   * Returns the path to the current log followed by the rotated logs, newest first
+   */
+  private getLogPaths(): string[] {
+    const paths = [this.configService.auditLogPath];
+    for (let i = 1; i <= this.keepRotatedLogs; i++) {
+      paths.push(`${this.configService.auditLogPath}.${i}`);
+    }
+    return paths;
+  }
+
+  /**
+   * Rotate the log once it reaches the maximum size, the oldest rotated log is removed
+   */
+  private async rotateLog() {
+    let size: number;
+    try {
+      size = (await fs.stat(this.configService.auditLogPath)).size;
+    } catch (e) {
+      return;
+    }
+
+    if (size < this.maxLogSize) {
+      return;
+    }
+
+    const paths = this.getLogPaths();
+    await fs.remove(paths[paths.length - 1]);
+    for (let i = paths.length - 2; i >= 0; i--) {
+      if (await fs.pathExists(paths[i])) {
+        await fs.rename(paths[i], paths[i + 1]);
+      }
+    }
+
+    this.logger.log(`Rotated the audit log`);
+  }
+
+  /**
+   * Read a file one line at a time
+   * @param filePath
+   * @param onLine
+   */
+  private readLines(filePath: string, onLine: (line: string) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const input = fs.createReadStream(filePath, { encoding: 'utf8' });
+      input.on('error', reject);
+
+      const rl = readline.createInterface({ input, crlfDelay: Infinity });
+      rl.on('line', onLine);
+      rl.on('close', resolve);
+    });
+  }
+}
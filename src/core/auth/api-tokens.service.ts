@@ -0,0 +1,184 @@
+import * as fs from 'fs-extra';
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { Logger } from '../logger/logger.service';
+import { SessionsService } from './sessions.service';
+import { allPermissions } from './permissions';
+
+export interface ApiTokenInterface {
+  id: string;
+  name: string;
+  username: string;
+  scopes: string[];
+  created: string;
+  lastUsed: string;
+}
+
+@Injectable()
+export class ApiTokensService {
+  // token cache, loaded from disk on first use
+  private tokens: ApiTokenInterface[];
+
+  // last used timestamps are only written to disk once a minute
+  private readonly lastUsedResolution = 60 * 1000;
+
+  // set when the tokens have been restored from a backup, new tokens can't be created until the ui is restarted
+  private restartRequired = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Create a new api token for a user
+   * Returns the token details and the signed token, the signed token is only ever returned once
+   * @param username
+   * @param name a name to help the user identify the token
+   * @param scopes the permissions granted to the token, these must be a subset of the users own permissions
+   * @param userPermissions
+   */
+  async createToken(username: string, name: string, scopes: string[], userPermissions: string[]) {
+    if (this.restartRequired) {
+      throw new BadRequestException('A backup has been restored, restart Homebridge before creating an API token');
+    }
+
+    const invalid = scopes.filter(x => !allPermissions.includes(x));
+    if (invalid.length) {
+      throw new BadRequestException(`Invalid Scopes: ${invalid.join(', ')}`);
+    }
+
+    const denied = scopes.filter(x => !userPermissions.includes(x));
+    if (denied.length) {
+      throw new BadRequestException(`You do not have permission to grant: ${denied.join(', ')}`);
+    }
+
+    const tokens = await this.getTokens();
+
+    const apiToken: ApiTokenInterface = {
+      id: crypto.randomBytes(16).toString('hex'),
+      name,
+      username,
+      scopes: Array.from(new Set(scopes)),
+      created: new Date().toISOString(),
+      lastUsed: null,
+    };
+
+    tokens.push(apiToken);
+    await this.saveTokens();
+    this.logger.warn(`Created API token "${name}" for user: ${username}`);
+
+    // api tokens do not expire, they are valid until they are revoked
+    const token = jwt.sign({ username, tid: apiToken.id }, this.configService.secrets.secretKey);
+
+    return {
+      ...apiToken,
+      token,
+    };
+  }
+
+  /**
+   * Returns all the api tokens belonging to a user
+   * @param username
+   */
+  async getUserTokens(username: string): Promise<ApiTokenInterface[]> {
+    const tokens = await this.getTokens();
+    return tokens.filter(x => x.username === username);
+  }
+
+  /**
+   * Returns a token by it's id, and records that it has been used
+   * @param tokenId
+   */
+  async useToken(tokenId: string): Promise<ApiTokenInterface> {
+    const tokens = await this.getTokens();
+    const apiToken = tokens.find(x => x.id === tokenId);
+
+    if (!apiToken) {
+      return null;
+    }
+
+    if (!apiToken.lastUsed || new Date(apiToken.lastUsed).getTime() + this.lastUsedResolution < Date.now()) {
+      apiToken.lastUsed = new Date().toISOString();
+      await this.saveTokens();
+    }
+
+    return apiToken;
+  }
+
+  /**
+   * Revoke one of a users api tokens
+   * @param username
+   * @param tokenId
+   */
+  async revokeToken(username: string, tokenId: string) {
+    const tokens = await this.getTokens();
+    const apiToken = tokens.find(x => x.id === tokenId && x.username === username);
+
+    if (!apiToken) {
+      throw new NotFoundException('API Token Not Found');
+    }
+
+    this.tokens = tokens.filter(x => x !== apiToken);
+    this.sessionsService.disconnectClients(apiToken.id);
+    await this.saveTokens();
+
+    this.logger.warn(`Revoked API token "${apiToken.name}" for user: ${username}`);
+  }
+
+  /**
+   * Revoke every api token belonging to a user
+   * @param username
+   */
+  async revokeUserTokens(username: string) {
+    const tokens = await this.getTokens();
+    const revoked = tokens.filter(x => x.username === username);
+
+    if (!revoked.length) {
+      return;
+    }
+
+    this.tokens = tokens.filter(x => x.username !== username);
+    revoked.forEach(x => this.sessionsService.disconnectClients(x.id));
+    await this.saveTokens();
+
+    this.logger.warn(`Revoked ${revoked.length} API token(s) for user: ${username}`);
+  }
+
+  /**
+   * Reload the tokens after the tokens file has been replaced by a restored backup
+   * The restored .uix-secrets file is only used to sign tokens after a restart, so token creation is blocked until then
+   */
+  reloadTokens() {
+    this.tokens = undefined;
+    this.restartRequired = true;
+  }
+
+  /**
+   * Returns all the api tokens
+   */
+  private async getTokens(): Promise<ApiTokenInterface[]> {
+    if (!this.tokens) {
+      try {
+        this.tokens = await fs.readJson(this.configService.apiTokensPath);
+      } catch (e) {
+        this.tokens = [];
+      }
+
+      if (!Array.isArray(this.tokens)) {
+        this.tokens = [];
+      }
+    }
+    return this.tokens;
+  }
+
+  /**
+   * Saves the api tokens file
+   */
+  private async saveTokens() {
+    return await fs.writeJson(this.configService.apiTokensPath, this.tokens, { mode: 0o600 });
+  }
+}
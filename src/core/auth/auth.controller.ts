@@ -1,18 +1,42 @@
-import { Controller, Post, Body, Get } from '@nestjs/common';
+import * as querystring from 'querystring';
+import { Controller, Post, Body, Get, Delete, UseGuards, Req, Res, Query } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
 import { AuthService } from './auth.service';
-import { AuthDto } from './auth.dto';
+import { AuthDto, AuthRefreshDto } from './auth.dto';
 import { ConfigService } from '../config/config.service';
+import { SessionGuard } from './guards/session.guard';
+import { OidcService } from './oidc.service';
+import { Logger } from '../logger/logger.service';
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
     private readonly configService: ConfigService,
+    private readonly oidcService: OidcService,
+    private readonly logger: Logger,
   ) { }
 
   @Post('login')
-  signIn(@Body() body: AuthDto) {
-    return this.authService.signIn(body.username, body.password);
+  signIn(@Req() req, @Body() body: AuthDto) {
+    return this.authService.signIn(body.username, body.password, body.otp, this.authService.getClientAddress(req));
+  }
+
+  @Post('/refresh')
+  refresh(@Body() body: AuthRefreshDto) {
+    return this.authService.refresh(body.refresh_token);
+  }
+
+  @UseGuards(AuthGuard())
+  @Post('/logout')
+  signOut(@Req() req) {
+    return this.authService.signOut(req.user.sid);
+  }
+
+  @UseGuards(AuthGuard(), SessionGuard)
+  @Post('/logout-everywhere')
+  signOutEverywhere(@Req() req) {
+    return this.authService.signOutEverywhere(req.user.username);
   }
 
   @Get('/settings')
@@ -25,4 +49,52 @@ export class AuthController {
     return this.authService.generateNoAuthToken();
   }
 
+  @Post('/proxy')
+  proxySignIn(@Req() req) {
+    return this.authService.proxySignIn(req.ip, req.headers);
+  }
+
+  @Get('/oidc/login')
+  async oidcLogin(@Req() req, @Res() res) {
+    return res.redirect(302, await this.oidcService.getAuthorizationUrl(this.oidcService.getRedirectUri(req)));
+  }
+
+  /**
+   * Start linking the signed in user to their account at the provider
+   * The browser is sent to the returned url, the link is completed by the callback
+   */
+  @UseGuards(AuthGuard(), SessionGuard)
+  @Post('/oidc/link')
+  async oidcLink(@Req() req) {
+    return {
+      url: await this.oidcService.getAuthorizationUrl(this.oidcService.getRedirectUri(req), req.user.username),
+    };
+  }
+
+  @UseGuards(AuthGuard(), SessionGuard)
+  @Delete('/oidc/link')
+  oidcUnlink(@Req() req) {
+    return this.authService.oidcUnlink(req.user.username);
+  }
+
+  @Get('/oidc/callback')
+  async oidcCallback(@Res() res, @Query() query) {
+    // the tokens are passed back to the login page in the url fragment so they are never sent to the server or logged
+    try {
+      const { claims, linkUsername } = await this.oidcService.handleCallback(query);
+      const tokens = linkUsername ? await this.authService.oidcLink(linkUsername, claims) : await this.authService.oidcSignIn(claims);
+      return res.redirect(302, '/login#' + querystring.stringify({
+        access_token: tokens.access_token,
+        refresh_token: tokens.refresh_token,
+      }));
+    } catch (e) {
+      // http exceptions wrap the error message in a response object
+      const message = (e.message && e.message.message) || e.message;
+      this.logger.warn(`OpenID Connect login failed: ${message}`);
+      return res.redirect(302, '/login#' + querystring.stringify({
+        oidc_error: message,
+      }));
+    }
+  }
+
 }
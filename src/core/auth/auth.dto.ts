@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
 
 export class AuthDto {
   @IsString()
@@ -8,4 +8,15 @@ export class AuthDto {
   @IsString()
   @IsNotEmpty()
   readonly password: string;
+
+  @IsString()
+  @IsOptional()
+  readonly otp?: string;
+}
+
+// tslint:disable-next-line: max-classes-per-file
+export class AuthRefreshDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly refresh_token: string;
 }
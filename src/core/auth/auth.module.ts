@@ -7,9 +7,13 @@ import { ConfigService } from '../config/config.service';
 import { JwtStrategy } from './jwt.strategy';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
-import { WsGuard } from './guards/ws.guard';
-import { AdminGuard } from './guards/admin.guard';
-import { WsAdminGuard } from './guards/ws-admin-guard';
+import { SessionsService } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { ApiTokensService } from './api-tokens.service';
+import { OidcService } from './oidc.service';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { WsPermissionsGuard } from './guards/ws-permissions.guard';
+import { SessionGuard } from './guards/session.guard';
 
 @Module({
   imports: [
@@ -19,7 +23,7 @@ import { WsAdminGuard } from './guards/ws-admin-guard';
       useFactory: async (configService: ConfigService) => ({
         secretOrPrivateKey: configService.secrets.secretKey,
         signOptions: {
-          expiresIn: configService.ui.sessionTimeout,
+          expiresIn: configService.accessTokenTimeout,
         },
       }),
       inject: [ConfigService],
@@ -29,16 +33,22 @@ import { WsAdminGuard } from './guards/ws-admin-guard';
   ],
   providers: [
     AuthService,
+    SessionsService,
+    LoginAttemptsService,
+    ApiTokensService,
+    OidcService,
     JwtStrategy,
-    WsGuard,
-    WsAdminGuard,
-    AdminGuard,
+    WsPermissionsGuard,
+    PermissionsGuard,
+    SessionGuard,
   ],
   controllers: [
     AuthController,
   ],
   exports: [
     AuthService,
+    SessionsService,
+    ApiTokensService,
   ],
 })
 export class AuthModule { }
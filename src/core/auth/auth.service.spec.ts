@@ -0,0 +1,144 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { authenticator } from 'otplib';
+import { Test } from '@nestjs/testing';
+import { ConfigModule } from '../config/config.module';
+import { ConfigService } from '../config/config.service';
+import { LoggerModule } from '../logger/logger.module';
+import { AuthModule } from './auth.module';
+import { AuthService } from './auth.service';
+
+describe('AuthService', () => {
+  const storagePath = path.resolve(os.tmpdir(), `uix-auth-service-test-${process.pid}`);
+  const authPath = path.resolve(storagePath, 'auth.json');
+
+  let authService: AuthService;
+  let configService: ConfigService;
+  let now: number;
+  let secret: string;
+
+  // the code shown by the authenticator app a number of 30 second steps from now
+  const otpCode = (steps = 0) => {
+    const generator = new (authenticator.getClass())();
+    generator.options = { ...authenticator.options, epoch: Math.floor(now / 1000) + steps * 30 };
+    return generator.generate(secret);
+  };
+
+  beforeAll(async () => {
+    await fs.emptyDir(storagePath);
+    await fs.writeJson(path.resolve(storagePath, 'config.json'), {
+      bridge: { name: 'Homebridge', username: '0E:00:00:00:00:00', port: 51826, pin: '031-45-154' },
+      platforms: [{ platform: 'config', name: 'Config', port: 8080 }],
+    });
+
+    process.env.UIX_BASE_PATH = path.resolve(__dirname, '../../..');
+    process.env.UIX_CONFIG_PATH = path.resolve(storagePath, 'config.json');
+    process.env.UIX_STORAGE_PATH = storagePath;
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => null);
+    jest.spyOn(console, 'warn').mockImplementation(() => null);
+    jest.spyOn(console, 'error').mockImplementation(() => null);
+
+    // start half way through a time step, so the codes for the steps either side are never accepted
+    now = (Math.floor(Date.now() / 30000) * 30 + 15) * 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    // an admin already exists, so the default user is not added while the tests are running
+    await fs.remove(path.resolve(storagePath, '.uix-login-attempts.json'));
+    await fs.writeJson(authPath, [{ id: 1, username: 'admin', name: 'Admin', admin: true, role: 'admin' }]);
+
+    const module = await Test.createTestingModule({
+      imports: [ConfigModule, LoggerModule, AuthModule],
+    }).compile();
+
+    authService = module.get(AuthService);
+    configService = module.get(ConfigService);
+
+    await authService.addUser({ username: 'user', name: 'User', password: 'password', role: 'admin' });
+    secret = (await authService.setupOtp('user')).secret;
+    await authService.activateOtp('user', otpCode());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.remove(storagePath);
+  });
+
+  it('does not accept the code used to activate 2fa', async () => {
+    await expect(authService.authenticate('user', 'password', otpCode())).rejects.toThrow('2FA Code Invalid');
+  });
+
+  it('only accepts each 2fa code once', async () => {
+    now += 30000;
+    const code = otpCode();
+
+    await expect(authService.authenticate('user', 'password', code)).resolves.toMatchObject({ username: 'user' });
+    await expect(authService.authenticate('user', 'password', code)).rejects.toThrow('2FA Code Invalid');
+  });
+
+  it('does not accept a 2fa code older than the last code used', async () => {
+    now += 60000;
+
+    await expect(authService.authenticate('user', 'password', otpCode())).resolves.toMatchObject({ username: 'user' });
+    await expect(authService.authenticate('user', 'password', otpCode(-1))).rejects.toThrow('2FA Code Invalid');
+  });
+
+  it('does not accept a used 2fa code after a restart', async () => {
+    now += 30000;
+    const code = otpCode();
+    await authService.authenticate('user', 'password', code);
+
+    const module = await Test.createTestingModule({
+      imports: [ConfigModule, LoggerModule, AuthModule],
+    }).compile();
+
+    await expect(module.get(AuthService).authenticate('user', 'password', code)).rejects.toThrow('2FA Code Invalid');
+    expect((await fs.readJson(authPath)).find(x => x.username === 'user').otpLastTimeStep).toBeGreaterThan(0);
+  });
+
+  it('locks out the ip address after too many wrong passwords when disabling 2fa', async () => {
+    for (let i = 0; i < 5; i++) {
+      await expect(authService.deactivateOtp('user', 'wrong', '10.0.0.1')).rejects.toThrow('Invalid Password');
+    }
+
+    await expect(authService.deactivateOtp('user', 'password', '10.0.0.1')).rejects.toMatchObject({ status: 429, retryAfter: 30 });
+    await expect(authService.regenerateOtpRecoveryCodes('user', 'password', '10.0.0.1')).rejects.toMatchObject({ status: 429 });
+
+    // other addresses only have to wait for the username delay
+    now += 1000;
+    await expect(authService.regenerateOtpRecoveryCodes('user', 'password', '10.0.0.2')).resolves.toHaveProperty('recoveryCodes');
+  });
+
+  it('rejects attempts for a username with too many failures until the delay has passed', async () => {
+    for (let i = 0; i < 5; i++) {
+      await expect(authService.deactivateOtp('user', 'wrong', `10.0.0.${i}`)).rejects.toThrow('Invalid Password');
+    }
+
+    await expect(authService.deactivateOtp('user', 'password', '10.0.1.1')).rejects.toMatchObject({ status: 429, retryAfter: 1 });
+
+    // only one of two parallel attempts is let through once the delay has passed
+    now += 1000;
+    const results = await Promise.all([
+      authService.regenerateOtpRecoveryCodes('user', 'password', '10.0.1.2').catch(e => e),
+      authService.regenerateOtpRecoveryCodes('user', 'password', '10.0.1.3').catch(e => e),
+    ]);
+    expect(results.filter(x => x.recoveryCodes)).toHaveLength(1);
+    expect(results.filter(x => x.status === 429)).toHaveLength(1);
+  });
+
+  it('does not allow form login when using proxy auth', async () => {
+    configService.ui.auth = 'proxy';
+    await expect(authService.signIn('user', 'password', otpCode(1))).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('does not return the last 2fa time step with the user', async () => {
+    const user = (await authService.getUsers(true)).find(x => x.username === 'user');
+    expect(user.otpLastTimeStep).toBeUndefined();
+  });
+});
@@ -1,27 +1,77 @@
 import * as fs from 'fs-extra';
 import * as crypto from 'crypto';
 import * as jwt from 'jsonwebtoken';
+import * as qr from 'qr-image';
+import { authenticator } from 'otplib';
 import { JwtService } from '@nestjs/jwt';
-import { Injectable, ForbiddenException, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { Injectable, ForbiddenException, BadRequestException, UnauthorizedException, NotFoundException, HttpException } from '@nestjs/common';
 import { ConfigService } from '../config/config.service';
 import { Logger } from '../logger/logger.service';
 import { WsException } from '@nestjs/websockets';
-import { UsersController } from 'src/modules/users/users.controller';
+import { SessionsService } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { ApiTokensService } from './api-tokens.service';
+import { UserRole, rolePermissions, allPermissions, getUserRole, getUserPermissions } from './permissions';
+import { getClientAddress } from './client-address';
+
+export interface HashParamsInterface {
+  algorithm: 'pbkdf2';
+  digest: string;
+  iterations: number;
+  keyLength: number;
+}
+
+/**
+ * The parameters used to hash new passwords
+ * pbkdf2 is used rather than scrypt so hashes can still be verified on node.js 8
+ */
+const currentHashParams: HashParamsInterface = {
+  algorithm: 'pbkdf2',
+  digest: 'sha512',
+  iterations: 210000,
+  keyLength: 64,
+};
+
+/**
+ * The parameters used for passwords hashed before the hash parameters were stored in the auth file
+ */
+const legacyHashParams: HashParamsInterface = {
+  algorithm: 'pbkdf2',
+  digest: 'sha512',
+  iterations: 1000,
+  keyLength: 64,
+};
 
 export interface UserInterface {
   id: number;
   name: string;
   username: string;
   admin: boolean;
+  role?: UserRole;
+  permissions?: string[];
   hashedPassword: string;
   salt: string;
+  hashParams?: HashParamsInterface;
+  otpSecret?: string;
+  otpActive?: boolean;
+  otpRecoveryCodes?: string[];
+  otpLastTimeStep?: number;
+  oidcIssuer?: string;
+  oidcSubject?: string;
 }
 
 @Injectable()
 export class AuthService {
+  // the time step of the last 2fa code accepted for each user, kept in memory as well as in the auth file
+  // so two requests with the same code at the same time can't both be accepted
+  private otpLastTimeSteps = new Map<string, number>();
+
   constructor(
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly apiTokensService: ApiTokensService,
     private readonly logger: Logger,
   ) {
     this.setupAuthFile();
@@ -31,40 +81,123 @@ export class AuthService {
    * Authenticate a user with their credentials
    * @param username
    * @param password
+   * @param otp the 2fa code or recovery code, only required if the user has 2fa enabled
+   * @param ip the ip address of the client, used to track failed attempts
    */
-  async authenticate(username: string, password: string): Promise<any> {
+  async authenticate(username: string, password: string, otp?: string, ip?: string): Promise<any> {
+    let user: UserInterface;
+
+    // reject the attempt straight away if the ip address or username is locked out
+    await this.loginAttemptsService.checkLockout(ip, username);
+
     try {
-      const user = await this.doLogin(username, password);
-      if (user) {
-        return {
-          username: user.username,
-          name: user.name,
-          admin: user.admin,
-          instanceId: this.configService.instanceId,
-        };
-      }
+      user = await this.doLogin(username, password);
     } catch (e) {
-      this.logger.warn(`Failed login attempt`);
+      await this.loginAttemptsService.recordFailure(ip, username);
       this.logger.warn(`If you've forgotten your password you can reset to the default ` +
         `of admin/admin by deleting the "auth.json" file (${this.configService.authPath}) and then restarting Homebridge.`);
       throw new ForbiddenException();
     }
+
+    // users with 2fa enabled must also provide a valid code
+    if (user.otpActive) {
+      if (!otp) {
+        throw new HttpException('2FA Code Required', 412);
+      }
+
+      if (!await this.verifyOtp(user, otp)) {
+        this.logger.warn(`Invalid 2FA code for ${user.username}`);
+        await this.loginAttemptsService.recordFailure(ip, username);
+        throw new ForbiddenException('2FA Code Invalid');
+      }
+    }
+
+    await this.loginAttemptsService.recordSuccess(ip, username);
+
+    return this.getUserPayload(user);
+  }
+
+  /**
+   * Returns the address of the client that sent the request, taking the trusted proxies into account
+   * @param req
+   */
+  getClientAddress(req): string {
+    return getClientAddress(req.ip, req.headers, this.configService.ui.trustedProxies);
   }
 
   /**
    * Authenticate and provide a JWT response
+   * A new session is created for each sign in, the refresh token can be used to get a new access token
+   * until the session expires or is revoked
+   * Form login is disabled when using proxy auth, users can only sign in through the reverse proxy
    * @param username
    * @param password
+   * @param otp
+   * @param ip
    */
-  async signIn(username: string, password: string): Promise<any> {
-    const user = await this.authenticate(username, password);
-    const token = await this.jwtService.sign(user);
+  async signIn(username: string, password: string, otp?: string, ip?: string): Promise<any> {
+    if (this.configService.ui.auth === 'proxy') {
+      throw new UnauthorizedException();
+    }
 
-    return {
-      access_token: token,
-      token_type: 'Bearer',
-      expires_in: this.configService.ui.sessionTimeout,
-    };
+    const user = await this.authenticate(username, password, otp, ip);
+    const { session, refreshToken } = await this.sessionsService.createSession(user.username);
+
+    return this.createTokenResponse(user, session.id, refreshToken);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * @param refreshToken
+   */
+  async refresh(refreshToken: string): Promise<any> {
+    const result = await this.sessionsService.refreshSession(refreshToken);
+
+    if (!result) {
+      throw new UnauthorizedException();
+    }
+
+    // make sure the user still exists, and pick up any changes to their account
+    const user = await this.findByUsername(result.session.username);
+
+    if (!user) {
+      await this.sessionsService.revokeSession(result.session.id);
+      throw new UnauthorizedException();
+    }
+
+    return this.createTokenResponse(this.getUserPayload(user), result.session.id, result.refreshToken);
+  }
+
+  /**
+   * Revoke the current session
+   * @param sessionId
+   */
+  async signOut(sessionId: string) {
+    if (sessionId) {
+      await this.sessionsService.revokeSession(sessionId);
+    }
+  }
+
+  /**
+   * Revoke all sessions for a user
+   * @param username
+   */
+  async signOutEverywhere(username: string) {
+    await this.sessionsService.revokeUserSessions(username);
+  }
+
+  /**
+   * Revoke all sessions for a user by their id
+   * @param id
+   */
+  async revokeUserSessions(id) {
+    const user = await this.findById(parseInt(id, 10));
+
+    if (!user) {
+      throw new BadRequestException('User Not Found');
+    }
+
+    await this.sessionsService.revokeUserSessions(user.username);
   }
 
   /**
@@ -80,47 +213,320 @@ export class AuthService {
     const users = await this.getUsers();
     const user = users.find(x => x.admin === true);
 
-    // generate a token
-    const token = await this.jwtService.sign({
-      username: user.username,
-      name: user.name,
-      admin: user.admin,
-      instanceId: this.configService.instanceId,
+    // generate a token, these are not linked to a session
+    return this.createTokenResponse(this.getUserPayload(user));
+  }
+
+  /**
+   * Sign in a user that has already been authenticated by a trusted reverse proxy
+   * The username is read from a header set by the proxy, requests from any other address are rejected
+   * @param ip the ip address of the client connecting to the ui, this must be a trusted proxy
+   * @param headers
+   */
+  async proxySignIn(ip: string, headers: { [key: string]: string | string[] }) {
+    if (this.configService.ui.auth !== 'proxy') {
+      throw new UnauthorizedException();
+    }
+
+    const proxyAuth = this.configService.ui.proxyAuth || {};
+    const trustedProxies = proxyAuth.trustedProxies || ['127.0.0.1', '::1'];
+    const remoteAddress = (ip || '').replace(/^::ffff:/, '');
+
+    if (!trustedProxies.includes(remoteAddress)) {
+      this.logger.warn(`Rejected proxy login attempt from untrusted address ${remoteAddress}`);
+      throw new UnauthorizedException();
+    }
+
+    const headerName = (proxyAuth.header || 'x-forwarded-user').toLowerCase();
+    const header = headers[headerName];
+    const username = (Array.isArray(header) ? header[0] : header || '').trim();
+
+    if (!username) {
+      this.logger.warn(`Proxy login attempt from ${remoteAddress} did not include the ${headerName} header`);
+      throw new UnauthorizedException();
+    }
+
+    let user = await this.findByUsername(username);
+
+    if (!user && proxyAuth.autoProvision) {
+      user = await this.provisionUser(username, username, proxyAuth.autoProvisionRole === 'operator' ? 'operator' : 'viewer');
+    }
+
+    if (!user) {
+      this.logger.warn(`Proxy login attempt for unknown user "${username}" from ${remoteAddress}`);
+      throw new ForbiddenException();
+    }
+
+    const { session, refreshToken } = await this.sessionsService.createSession(user.username);
+    return this.createTokenResponse(this.getUserPayload(user), session.id, refreshToken);
+  }
+
+  /**
+   * Sign in a user that has been authenticated by an OpenID Connect provider
+   * Users are matched by the issuer and subject of the provider account, which were stored when the user was
+   * provisioned or linked the account, never by username as the provider usually lets users change it
+   * If a role claim is configured the users role is updated from the claim every time they sign in
+   * @param claims the verified claims from the provider
+   */
+  async oidcSignIn(claims: { [key: string]: any }) {
+    const oidc = this.configService.ui.oidc;
+
+    let role: UserRole;
+    if (oidc.roleClaim) {
+      const values = [].concat(claims[oidc.roleClaim] || []);
+      if (values.some(x => (oidc.adminValues || []).includes(x))) {
+        role = 'admin';
+      } else if (values.some(x => (oidc.operatorValues || []).includes(x))) {
+        role = 'operator';
+      } else {
+        role = 'viewer';
+      }
+    }
+
+    let user = await this.findByOidcSubject(claims.iss, claims.sub);
+
+    if (!user && oidc.autoProvision) {
+      const username = claims[oidc.usernameClaim || 'preferred_username'];
+
+      if (!username || typeof username !== 'string') {
+        throw new ForbiddenException(`OpenID Connect provider did not return the ${oidc.usernameClaim || 'preferred_username'} claim`);
+      }
+
+      if (await this.findByUsername(username)) {
+        this.logger.warn(`OpenID Connect login attempt for existing user "${username}" that has not linked the account (${claims.sub})`);
+        throw new ForbiddenException(`User ${username} already exists, sign in with your password and link your account from your profile`);
+      }
+
+      user = await this.provisionUser(username, claims.name || username, role || 'viewer', claims.iss, claims.sub);
+    } else if (user && role && role !== getUserRole(user)) {
+      await this.updateUser(user.id, { role });
+      user = await this.findById(user.id);
+    }
+
+    if (!user) {
+      this.logger.warn(`OpenID Connect login attempt for unknown account ${claims.sub}`);
+      throw new ForbiddenException('Your account does not have access, sign in with your password and link your account from your profile');
+    }
+
+    const { session, refreshToken } = await this.sessionsService.createSession(user.username);
+    return this.createTokenResponse(this.getUserPayload(user), session.id, refreshToken);
+  }
+
+  /**
+   * Link an OpenID Connect provider account to a user, then sign them in
+   * The link was started by the signed in user, so this is the only place an existing user is bound to a provider account
+   * @param username the user that started the link
+   * @param claims the verified claims from the provider
+   */
+  async oidcLink(username: string, claims: { [key: string]: any }) {
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    if (!user) {
+      throw new ForbiddenException(`User ${username} does not exist`);
+    }
+
+    const linked = authfile.find(x => x.oidcIssuer === claims.iss && x.oidcSubject === claims.sub);
+    if (linked && linked !== user) {
+      throw new ForbiddenException(`This account is already linked to the user ${linked.username}`);
+    }
+
+    user.oidcIssuer = claims.iss;
+    user.oidcSubject = claims.sub;
+
+    await this.saveUserFile(authfile);
+    this.logger.warn(`Linked OpenID Connect account ${claims.sub} to user: ${user.username}`);
+
+    const { session, refreshToken } = await this.sessionsService.createSession(user.username);
+    return this.createTokenResponse(this.getUserPayload(user), session.id, refreshToken);
+  }
+
+  /**
+   * Remove the link between a user and their OpenID Connect provider account
+   * @param username
+   */
+  async oidcUnlink(username: string) {
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    if (!user) {
+      throw new NotFoundException('User Not Found');
+    }
+
+    delete user.oidcIssuer;
+    delete user.oidcSubject;
+
+    await this.saveUserFile(authfile);
+    this.logger.warn(`Unlinked OpenID Connect account from user: ${user.username}`);
+  }
+
+  /**
+   * Create a user that signs in using an external identity provider
+   * The password is random and never used, these users can only sign in via the provider
+   * @param username
+   * @param name
+   * @param role
+   * @param oidcIssuer the issuer of the OpenID Connect account the user is linked to
+   * @param oidcSubject the subject of the OpenID Connect account the user is linked to
+   */
+  private async provisionUser(username: string, name: string, role: UserRole, oidcIssuer?: string, oidcSubject?: string): Promise<UserInterface> {
+    await this.addUser({
+      username,
+      name,
+      password: crypto.randomBytes(32).toString('hex'),
+      role,
     });
 
-    return {
-      access_token: token,
-      token_type: 'Bearer',
-      expires_in: this.configService.ui.sessionTimeout,
-    };
+    if (oidcIssuer) {
+      const authfile = await this.getUsers();
+      const user = authfile.find(x => x.username === username);
+      user.oidcIssuer = oidcIssuer;
+      user.oidcSubject = oidcSubject;
+      await this.saveUserFile(authfile);
+    }
+
+    return await this.findByUsername(username);
   }
 
   /**
    * Validate User
-   * All information about the user we need is stored in the payload
+   * Checks the session is still active and the user still exists, and refreshes the user details
+   * so changes to the user take effect immediately
    * @param payload the decoded, verified jwt payload
    */
   async validateUser(payload): Promise<any> {
-    return payload;
+    // api tokens are linked to a token record instead of a session
+    if (payload.tid) {
+      return await this.validateApiToken(payload);
+    }
+
+    // tokens issued when authentication is disabled are not linked to a session
+    if (!payload.sid) {
+      return (this.configService.ui.auth === 'none') ? payload : null;
+    }
+
+    if (!await this.sessionsService.isValid(payload.sid)) {
+      return null;
+    }
+
+    const user = await this.findByUsername(payload.username);
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      ...this.getUserPayload(user),
+      sid: payload.sid,
+    };
   }
 
   /**
-   * Verify a token is signed correctly
-   * @param token
+   * Validate an api token
+   * The token is limited to the permissions in it's scope that the user still has
+   * @param payload the decoded, verified jwt payload
+   */
+  private async validateApiToken(payload): Promise<any> {
+    const apiToken = await this.apiTokensService.useToken(payload.tid);
+
+    if (!apiToken || apiToken.username !== payload.username) {
+      return null;
+    }
+
+    const user = await this.findByUsername(apiToken.username);
+
+    if (!user) {
+      return null;
+    }
+
+    const userPayload = this.getUserPayload(user);
+
+    return {
+      ...userPayload,
+      permissions: userPayload.permissions.filter(x => apiToken.scopes.includes(x)),
+      tid: apiToken.id,
+    };
+  }
+
+  /**
+   * Verify a websocket client is authorised
+   * The token is verified the first time, after that only the session is checked as the socket
+   * will stay connected for longer than the lifetime of the access token
+   * @param client
    */
   async verifyWsConnection(client) {
     try {
-      return jwt.verify(client.handshake.query.token, this.configService.secrets.secretKey);
+      const payload = client.user || jwt.verify(client.handshake.query.token, this.configService.secrets.secretKey);
+      const user = await this.validateUser(payload);
+
+      if (!user) {
+        throw new Error('Session Not Valid');
+      }
+
+      // keep track of the client so it can be disconnected if the session or api token is revoked
+      if (user.sid || user.tid) {
+        this.sessionsService.trackClient(user.sid || user.tid, client);
+      }
+
+      client.user = user;
+      return user;
     } catch (e) {
       client.disconnect();
       throw new WsException('Unauthorized');
     }
   }
+
+  /**
+   * The user details that are stored in the jwt payload
+   * @param user
+   */
+  private getUserPayload(user: UserInterface) {
+    return {
+      username: user.username,
+      name: user.name,
+      admin: user.admin,
+      role: getUserRole(user),
+      permissions: getUserPermissions(user),
+      instanceId: this.configService.instanceId,
+    };
+  }
+
+  /**
+   * Sign an access token and build the token response
+   * @param user
+   * @param sessionId
+   * @param refreshToken
+   */
+  private async createTokenResponse(user, sessionId?: string, refreshToken?: string) {
+    const token = await this.jwtService.sign(sessionId ? { ...user, sid: sessionId } : user);
+
+    return {
+      access_token: token,
+      token_type: 'Bearer',
+      expires_in: this.configService.accessTokenTimeout,
+      refresh_token: refreshToken,
+      refresh_expires_in: refreshToken ? this.configService.ui.sessionTimeout : undefined,
+    };
+  }
   /**
    * Returns all the users
+   * @param strip if true, remove the password hashes and 2fa secrets from the response, and fill in the role for legacy users
    */
-  async getUsers(): Promise<UserInterface[]> {
-    const users = await fs.readJson(this.configService.authPath);
+  async getUsers(strip?: boolean): Promise<UserInterface[]> {
+    const users: UserInterface[] = await fs.readJson(this.configService.authPath);
+
+    if (strip) {
+      for (const user of users) {
+        delete user.hashedPassword;
+        delete user.salt;
+        delete user.hashParams;
+        delete user.otpSecret;
+        delete user.otpRecoveryCodes;
+        delete user.otpLastTimeStep;
+        user.role = getUserRole(user);
+      }
+    }
+
     return users;
   }
 
@@ -144,6 +550,21 @@ export class AuthService {
     return user;
   }
 
+  /**
+   * Return the user linked to an OpenID Connect provider account
+   * @param issuer
+   * @param subject
+   */
+  async findByOidcSubject(issuer: string, subject: string): Promise<UserInterface> {
+    if (!issuer || !subject) {
+      return undefined;
+    }
+
+    const users = await this.getUsers();
+    const user = users.find(x => x.oidcIssuer === issuer && x.oidcSubject === subject);
+    return user;
+  }
+
   /**
    * Saves the user file
    * @param users
@@ -157,10 +578,15 @@ export class AuthService {
    * Hash a password
    * @param password
    * @param salt
+   * @param params the hash parameters, defaults to the current parameters
    */
-  private async hashPassword(password: string, salt: string): Promise<string> {
+  private async hashPassword(password: string, salt: string, params = currentHashParams): Promise<string> {
+    if (params.algorithm !== 'pbkdf2') {
+      throw new Error(`Unsupported password hash algorithm: ${params.algorithm}`);
+    }
+
     return new Promise((resolve, reject) => {
-      crypto.pbkdf2(password, salt, 1000, 64, 'sha512', (err, derivedKey) => {
+      crypto.pbkdf2(password, salt, params.iterations, params.keyLength, params.digest, (err, derivedKey) => {
         if (err) return reject(err);
         return resolve(derivedKey.toString('hex'));
       });
@@ -191,13 +617,56 @@ export class AuthService {
       throw new ForbiddenException();
     }
 
-    const hashedPassword = await this.hashPassword(password, user.salt);
+    const hashedPassword = await this.hashPassword(password, user.salt, user.hashParams || legacyHashParams);
 
-    if (hashedPassword === user.hashedPassword) {
-      return user;
-    } else {
+    if (!this.compareHash(hashedPassword, user.hashedPassword)) {
       throw new ForbiddenException();
     }
+
+    // upgrade passwords hashed with old parameters now the plain text password is known
+    if (this.needsRehash(user)) {
+      await this.rehashPassword(user.username, password);
+    }
+
+    return user;
+  }
+
+  /**
+   * Returns true if the users password was not hashed with the current parameters
+   * @param user
+   */
+  private needsRehash(user: UserInterface): boolean {
+    const params = user.hashParams || legacyHashParams;
+    return Object.keys(currentHashParams).some(x => currentHashParams[x] !== params[x]);
+  }
+
+  /**
+   * Hash a users password again using the current parameters
+   * @param username
+   * @param password
+   */
+  private async rehashPassword(username: string, password: string) {
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+    const salt = await this.genSalt();
+
+    user.hashedPassword = await this.hashPassword(password, salt);
+    user.salt = salt;
+    user.hashParams = currentHashParams;
+
+    await this.saveUserFile(authfile);
+    this.logger.log(`Upgraded password hash for user: ${user.username}`);
+  }
+
+  /**
+   * Compare two hex encoded hashes in constant time
+   * @param a
+   * @param b
+   */
+  private compareHash(a: string, b: string): boolean {
+    const bufA = Buffer.from(a, 'hex');
+    const bufB = Buffer.from(b || '', 'hex');
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
   }
 
   /**
@@ -207,6 +676,7 @@ export class AuthService {
   async addUser(user) {
     const authfile = await this.getUsers();
     const salt = await this.genSalt();
+    const role = this.parseRole(user);
 
     // user object
     const newUser: UserInterface = {
@@ -215,7 +685,10 @@ export class AuthService {
       name: user.name,
       hashedPassword: await this.hashPassword(user.password, salt),
       salt,
-      admin: user.admin,
+      hashParams: currentHashParams,
+      admin: role === 'admin',
+      role,
+      permissions: this.parsePermissions(user.permissions),
     };
 
     // add the user to the authfile
@@ -244,11 +717,15 @@ export class AuthService {
       throw new BadRequestException('Cannot delete only admin user');
     }
 
-    authfile.splice(index, 1);
+    const [deletedUser] = authfile.splice(index, 1);
 
     // update the auth.json
     await this.saveUserFile(authfile);
     this.logger.warn(`Deleted user with ID ${id}`);
+
+    // kick the user out of any active sessions and revoke their api tokens
+    await this.sessionsService.revokeUserSessions(deletedUser.username);
+    await this.apiTokensService.revokeUserTokens(deletedUser.username);
   }
 
   /**
@@ -265,18 +742,80 @@ export class AuthService {
       throw new BadRequestException('User Not Found');
     }
 
+    const role = (update.role === undefined && update.admin === undefined) ? getUserRole(user) : this.parseRole(update);
+    const permissions = (update.permissions === undefined) ? user.permissions : this.parsePermissions(update.permissions);
+
+    // prevent removing the only admin user
+    if (user.admin && role !== 'admin' && authfile.filter(x => x.admin === true).length < 2) {
+      throw new BadRequestException('Cannot remove admin role from only admin user');
+    }
+
+    // users that have their access changed or have their password changed must login again
+    const revokeSessions = Boolean(update.password) || role !== getUserRole(user) ||
+      JSON.stringify(permissions || []) !== JSON.stringify(user.permissions || []);
+
     user.name = update.name || user.name;
-    user.admin = (update.admin === undefined) ? user.admin : update.admin;
+    user.role = role;
+    user.admin = role === 'admin';
+    user.permissions = permissions;
+
+    // allow an admin to disable 2fa for a user that has lost their device
+    if (update.otpActive === false && user.otpActive) {
+      this.clearOtp(user);
+      this.logger.warn(`2FA disabled for user: ${user.username}`);
+    }
 
     if (update.password) {
       const salt = await this.genSalt();
       user.hashedPassword = await this.hashPassword(update.password, salt);
       user.salt = salt;
+      user.hashParams = currentHashParams;
     }
 
     // update the auth.json
-    this.saveUserFile(authfile);
+    await this.saveUserFile(authfile);
     this.logger.log(`Updated user: ${user.username}`);
+
+    if (revokeSessions) {
+      await this.sessionsService.revokeUserSessions(user.username);
+    }
+  }
+
+  /**
+   * Work out the role from a new or updated user, the admin flag is still accepted from older clients
+   * @param user
+   */
+  private parseRole(user: { role?: UserRole, admin?: boolean }): UserRole {
+    if (user.role === undefined) {
+      return user.admin ? 'admin' : 'operator';
+    }
+
+    if (!rolePermissions[user.role]) {
+      throw new BadRequestException(`Invalid Role: ${user.role}`);
+    }
+
+    return user.role;
+  }
+
+  /**
+   * Validate the additional permissions granted to a user
+   * @param permissions
+   */
+  private parsePermissions(permissions: string[]): string[] {
+    if (permissions === undefined || permissions === null) {
+      return undefined;
+    }
+
+    if (!Array.isArray(permissions)) {
+      throw new BadRequestException('Permissions must be an array');
+    }
+
+    const invalid = permissions.filter(x => !allPermissions.includes(x));
+    if (invalid.length) {
+      throw new BadRequestException(`Invalid Permissions: ${invalid.join(', ')}`);
+    }
+
+    return permissions.length ? permissions : undefined;
   }
 
   /**
@@ -287,7 +826,7 @@ export class AuthService {
       username: 'admin',
       password: 'admin',
       name: 'Administrator',
-      admin: true,
+      role: 'admin',
     });
   }
 
@@ -306,4 +845,298 @@ export class AuthService {
       await this.setupDefaultUser();
     }
   }
+
+  /**
+   * Start 2fa enrollment for a user
+   * Generates a new secret and returns the provisioning uri and qr code
+   * @param username
+   */
+  async setupOtp(username: string) {
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    if (!user) {
+      throw new BadRequestException('User Not Found');
+    }
+
+    if (user.otpActive) {
+      throw new BadRequestException('2FA has already been activated for this user');
+    }
+
+    // the secret is not used for login until it has been activated
+    user.otpSecret = authenticator.generateSecret();
+    await this.saveUserFile(authfile);
+
+    const otpauth = authenticator.keyuri(user.username, this.configService.homebridgeConfig.bridge.name || 'Homebridge', user.otpSecret);
+    const qrImg = qr.svgObject(otpauth, { type: 'svg' });
+
+    return {
+      secret: user.otpSecret,
+      otpauth,
+      qrcode: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${qrImg.size} ${qrImg.size}"><path d="${qrImg.path}"/></svg>`,
+    };
+  }
+
+  /**
+   * Activate 2fa for a user after they have confirmed a code from their authenticator app
+   * Returns a fresh set of recovery codes, these are only shown to the user once
+   * @param username
+   * @param code
+   */
+  async activateOtp(username: string, code: string) {
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    if (!user) {
+      throw new BadRequestException('User Not Found');
+    }
+
+    if (user.otpActive) {
+      throw new BadRequestException('2FA has already been activated for this user');
+    }
+
+    if (!user.otpSecret) {
+      throw new BadRequestException('2FA has not been setup for this user');
+    }
+
+    const timeStep = this.getOtpTimeStep(code.replace(/\s/g, ''), user.otpSecret);
+    if (timeStep === null) {
+      throw new BadRequestException('2FA Code Invalid');
+    }
+
+    const recoveryCodes = this.genRecoveryCodes();
+
+    // the code used to activate 2fa can't be used again to sign in
+    user.otpLastTimeStep = timeStep;
+    this.otpLastTimeSteps.set(user.username, timeStep);
+    user.otpActive = true;
+    user.otpRecoveryCodes = recoveryCodes.map(x => this.hashRecoveryCode(x));
+
+    await this.saveUserFile(authfile);
+    this.logger.warn(`2FA activated for user: ${user.username}`);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Returns the profile of the signed in user
+   * @param username
+   */
+  async getProfile(username: string): Promise<UserInterface> {
+    const user = (await this.getUsers(true)).find(x => x.username === username);
+
+    if (!user) {
+      throw new NotFoundException('User Not Found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Update the profile of the signed in user, only the display name can be changed this way
+   * @param username
+   * @param name
+   */
+  async updateProfile(username: string, name: string): Promise<UserInterface> {
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    if (!user) {
+      throw new NotFoundException('User Not Found');
+    }
+
+    user.name = name;
+
+    await this.saveUserFile(authfile);
+    this.logger.log(`Updated profile for user: ${user.username}`);
+
+    return this.getProfile(username);
+  }
+
+  /**
+   * Change the password of the signed in user, the user must confirm their current password
+   * The user's other sessions are signed out, the session used to make the change is kept
+   * @param username
+   * @param currentPassword
+   * @param newPassword
+   * @param sessionId
+   * @param ip
+   */
+  async changePassword(username: string, currentPassword: string, newPassword: string, sessionId: string, ip: string) {
+    await this.loginAttemptsService.checkLockout(ip, username);
+
+    try {
+      await this.doLogin(username, currentPassword);
+    } catch (e) {
+      await this.loginAttemptsService.recordFailure(ip, username);
+      throw new ForbiddenException('Invalid Password');
+    }
+    await this.loginAttemptsService.recordSuccess(ip, username);
+
+    if (newPassword === currentPassword) {
+      throw new BadRequestException('The new password must be different to the current password');
+    }
+
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    const salt = await this.genSalt();
+    user.hashedPassword = await this.hashPassword(newPassword, salt);
+    user.salt = salt;
+    user.hashParams = currentHashParams;
+
+    await this.saveUserFile(authfile);
+    this.logger.log(`Password changed for user: ${user.username}`);
+
+    await this.sessionsService.revokeUserSessions(user.username, sessionId);
+  }
+
+  /**
+   * Disable 2fa for a user, the user must confirm their password
+   * @param username
+   * @param password
+   * @param ip
+   */
+  async deactivateOtp(username: string, password: string, ip: string) {
+    await this.loginAttemptsService.checkLockout(ip, username);
+
+    try {
+      await this.doLogin(username, password);
+    } catch (e) {
+      await this.loginAttemptsService.recordFailure(ip, username);
+      throw new ForbiddenException('Invalid Password');
+    }
+    await this.loginAttemptsService.recordSuccess(ip, username);
+
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    this.clearOtp(user);
+
+    await this.saveUserFile(authfile);
+    this.logger.warn(`2FA disabled for user: ${user.username}`);
+  }
+
+  /**
+   * Replace a users recovery codes, the user must confirm their password
+   * @param username
+   * @param password
+   * @param ip
+   */
+  async regenerateOtpRecoveryCodes(username: string, password: string, ip: string) {
+    await this.loginAttemptsService.checkLockout(ip, username);
+
+    try {
+      await this.doLogin(username, password);
+    } catch (e) {
+      await this.loginAttemptsService.recordFailure(ip, username);
+      throw new ForbiddenException('Invalid Password');
+    }
+    await this.loginAttemptsService.recordSuccess(ip, username);
+
+    const authfile = await this.getUsers();
+    const user = authfile.find(x => x.username === username);
+
+    if (!user.otpActive) {
+      throw new BadRequestException('2FA has not been activated for this user');
+    }
+
+    const recoveryCodes = this.genRecoveryCodes();
+    user.otpRecoveryCodes = recoveryCodes.map(x => this.hashRecoveryCode(x));
+
+    await this.saveUserFile(authfile);
+    this.logger.log(`2FA recovery codes regenerated for user: ${user.username}`);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a 2fa code or recovery code is valid for the user
+   * Each 2fa code can only be used once, codes for the same or an earlier time step than the last code used are rejected
+   * Recovery codes can only be used once and are removed from the auth file after use
+   * @param user
+   * @param code
+   */
+  private async verifyOtp(user: UserInterface, code: string): Promise<boolean> {
+    code = code.replace(/\s/g, '');
+
+    if (/^\d{6}$/.test(code)) {
+      const timeStep = this.getOtpTimeStep(code, user.otpSecret);
+      const lastTimeStep = Math.max(user.otpLastTimeStep || 0, this.otpLastTimeSteps.get(user.username) || 0);
+
+      if (timeStep === null || timeStep <= lastTimeStep) {
+        return false;
+      }
+      this.otpLastTimeSteps.set(user.username, timeStep);
+
+      const users = await this.getUsers();
+      const otpUser = users.find(x => x.username === user.username);
+      otpUser.otpLastTimeStep = Math.max(otpUser.otpLastTimeStep || 0, timeStep);
+      await this.saveUserFile(users);
+
+      return true;
+    }
+
+    const authfile = await this.getUsers();
+    const authUser = authfile.find(x => x.username === user.username);
+    const hashedCode = this.hashRecoveryCode(code);
+
+    if (!authUser.otpRecoveryCodes || !authUser.otpRecoveryCodes.includes(hashedCode)) {
+      return false;
+    }
+
+    authUser.otpRecoveryCodes = authUser.otpRecoveryCodes.filter(x => x !== hashedCode);
+    await this.saveUserFile(authfile);
+
+    this.logger.warn(`2FA recovery code used for ${authUser.username}, ${authUser.otpRecoveryCodes.length} recovery codes remaining`);
+    return true;
+  }
+
+  /**
+   * Returns the time step a 2fa code was generated for, or null if the code is not valid now
+   * The code is checked with a copy of the authenticator fixed to the current time, so the time step can't move on during the check
+   * @param code
+   * @param secret
+   */
+  private getOtpTimeStep(code: string, secret: string): number {
+    const epoch = Math.floor(Date.now() / 1000);
+    const checker = new (authenticator.getClass())();
+    checker.options = { ...authenticator.options, epoch };
+
+    const delta = checker.checkDelta(code, secret);
+    return delta === null ? null : Math.floor(epoch / checker.optionsAll.step) + delta;
+  }
+
+  /**
+   * Removes all 2fa settings from a user
+   * @param user
+   */
+  private clearOtp(user: UserInterface) {
+    delete user.otpSecret;
+    delete user.otpActive;
+    delete user.otpRecoveryCodes;
+    delete user.otpLastTimeStep;
+    this.otpLastTimeSteps.delete(user.username);
+  }
+
+  /**
+   * Generate a set of 10 single use recovery codes
+   */
+  private genRecoveryCodes(): string[] {
+    const codes: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      const code = crypto.randomBytes(5).toString('hex');
+      codes.push(`${code.substr(0, 5)}-${code.substr(5)}`);
+    }
+    return codes;
+  }
+
+  /**
+   * Hash a recovery code
+   * Recovery codes are random so a single round of sha256 is sufficient
+   * @param code
+   */
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase().replace(/[^a-f0-9]/g, '')).digest('hex');
+  }
 }
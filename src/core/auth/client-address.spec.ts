@@ -0,0 +1,20 @@
+import { getClientAddress } from './client-address';
+
+describe('getClientAddress', () => {
+  const trustedProxies = ['10.0.0.1', '10.0.0.2'];
+
+  it('ignores the X-Forwarded-For header from untrusted addresses', () => {
+    expect(getClientAddress('::ffff:192.168.1.10', { 'x-forwarded-for': '1.2.3.4' }, trustedProxies)).toEqual('192.168.1.10');
+    expect(getClientAddress('192.168.1.10', { 'x-forwarded-for': '1.2.3.4' })).toEqual('192.168.1.10');
+  });
+
+  it('returns the right-most address that is not a trusted proxy', () => {
+    expect(getClientAddress('10.0.0.1', { 'x-forwarded-for': '5.6.7.8, 1.2.3.4, 10.0.0.2' }, trustedProxies)).toEqual('1.2.3.4');
+    expect(getClientAddress('10.0.0.1', { 'x-forwarded-for': ['5.6.7.8', '::ffff:1.2.3.4'] }, trustedProxies)).toEqual('1.2.3.4');
+  });
+
+  it('returns the proxy address when there is no header', () => {
+    expect(getClientAddress('10.0.0.1', {}, trustedProxies)).toEqual('10.0.0.1');
+    expect(getClientAddress(undefined, undefined, trustedProxies)).toEqual('');
+  });
+});
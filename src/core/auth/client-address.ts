@@ -0,0 +1,27 @@
+/**
+ * Returns the address of the client that sent a request or opened a websocket
+ * The X-Forwarded-For header is only used when the connection came from one of the trusted proxies,
+ * the client is the right-most address in the header that is not itself a trusted proxy
+ * @param remoteAddress the address of the connection
+ * @param headers
+ * @param trustedProxies
+ */
+export function getClientAddress(remoteAddress: string, headers: { [key: string]: string | string[] }, trustedProxies: string[] = []): string {
+  remoteAddress = (remoteAddress || '').replace(/^::ffff:/, '');
+
+  const header = headers && headers['x-forwarded-for'];
+  if (!trustedProxies.includes(remoteAddress) || !header) {
+    return remoteAddress;
+  }
+
+  const forwarded = (Array.isArray(header) ? header.join(',') : header)
+    .split(',')
+    .map(x => x.trim().replace(/^::ffff:/, ''))
+    .filter(x => x);
+
+  let clientAddress = remoteAddress;
+  while (forwarded.length && trustedProxies.includes(clientAddress)) {
+    clientAddress = forwarded.pop();
+  }
+  return clientAddress;
+}
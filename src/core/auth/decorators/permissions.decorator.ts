@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Set the permissions required to access a route or websocket message
+ * Must be used together with the PermissionsGuard or WsPermissionsGuard
+ * @param permissions
+ */
+export const Permissions = (...permissions: string[]) => SetMetadata('permissions', permissions);
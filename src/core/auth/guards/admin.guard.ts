@@ -1,11 +0,0 @@
-import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
-
-@Injectable()
-export class AdminGuard implements CanActivate {
-  constructor() { }
-
-  canActivate(context: ExecutionContext): boolean {
-    const request = context.switchToHttp().getRequest();
-    return request.user.admin;
-  }
-}
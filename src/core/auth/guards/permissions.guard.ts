@@ -0,0 +1,18 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { hasPermission } from '../permissions';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+  ) { }
+
+  canActivate(context: ExecutionContext): boolean {
+    const permissions = this.reflector.get<string[]>('permissions', context.getHandler()) ||
+      this.reflector.get<string[]>('permissions', context.getClass()) || [];
+
+    const request = context.switchToHttp().getRequest();
+    return hasPermission(request.user, ...permissions);
+  }
+}
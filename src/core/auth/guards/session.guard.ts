@@ -0,0 +1,15 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+
+/**
+ * Only allow requests made using a user session, api tokens cannot be used
+ * to manage the account they belong to
+ */
+@Injectable()
+export class SessionGuard implements CanActivate {
+  constructor() { }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    return Boolean(request.user && !request.user.tid);
+  }
+}
@@ -0,0 +1,25 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from '../auth.service';
+import { hasPermission } from '../permissions';
+
+@Injectable()
+export class WsPermissionsGuard implements CanActivate {
+  constructor(
+    private authService: AuthService,
+    private reflector: Reflector,
+  ) { }
+
+  async canActivate(context: ExecutionContext) {
+    const permissions = this.reflector.get<string[]>('permissions', context.getHandler()) ||
+      this.reflector.get<string[]>('permissions', context.getClass()) || [];
+
+    const client = context.switchToWs().getClient();
+    try {
+      const user = await this.authService.verifyWsConnection(client);
+      return hasPermission(user, ...permissions);
+    } catch (e) {
+      return false;
+    }
+  }
+}
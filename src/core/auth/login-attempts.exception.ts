@@ -0,0 +1,10 @@
+import { HttpException } from '@nestjs/common';
+
+/**
+ * Thrown when an attempt is made too soon, the client is told how many seconds to wait in the Retry-After header
+ */
+export class TooManyAttemptsException extends HttpException {
+  constructor(public readonly retryAfter: number) {
+    super(`Too many failed login attempts, try again in ${retryAfter} seconds`, 429);
+  }
+}
@@ -0,0 +1,15 @@
+import { Catch, ExceptionFilter, ArgumentsHost } from '@nestjs/common';
+import { TooManyAttemptsException } from './login-attempts.exception';
+
+@Catch(TooManyAttemptsException)
+export class LoginAttemptsFilter implements ExceptionFilter {
+  catch(exception: TooManyAttemptsException, host: ArgumentsHost) {
+    const res = host.switchToHttp().getResponse();
+
+    res.header('Retry-After', exception.retryAfter.toString());
+    res.code(exception.getStatus()).send({
+      statusCode: exception.getStatus(),
+      message: exception.getResponse(),
+    });
+  }
+}
@@ -0,0 +1,163 @@
+import * as fs from 'fs-extra';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { Logger } from '../logger/logger.service';
+import { TooManyAttemptsException } from './login-attempts.exception';
+
+export interface LoginAttemptInterface {
+  key: string;
+  failures: number;
+  lastFailure: number;
+  lockedUntil: number;
+}
+
+@Injectable()
+export class LoginAttemptsService {
+  // number of failed attempts allowed before the ip address is locked out, or attempts for the username are slowed down
+  private readonly maxFailures = 5;
+
+  // the first lockout lasts 30 seconds, and doubles for each failure after that up to one hour
+  private readonly baseLockout = 30 * 1000;
+  private readonly maxLockout = 60 * 60 * 1000;
+
+  // usernames are never locked out for long, otherwise anyone could lock the admin out by guessing their password,
+  // instead only one attempt is allowed every 1 second, doubling for each failure after that up to 30 seconds
+  private readonly baseUserDelay = 1000;
+  private readonly maxUserDelay = 30 * 1000;
+
+  // failures are forgotten after 24 hours without another failed attempt
+  private readonly resetAfter = 24 * 60 * 60 * 1000;
+
+  // attempt cache, loaded from disk on first use
+  private attempts: LoginAttemptInterface[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Throws an exception if the ip address is currently locked out
+   * If the username has too many failed attempts, throws an exception if the attempt is made before the delay has passed
+   * @param ip
+   * @param username
+   */
+  async checkLockout(ip: string, username: string) {
+    const attempts = await this.getAttempts();
+    const ipAttempt = attempts.find(x => x.key === this.ipKey(ip));
+
+    if (ipAttempt && ipAttempt.lockedUntil > Date.now()) {
+      const retryAfter = Math.ceil((ipAttempt.lockedUntil - Date.now()) / 1000);
+      this.logger.warn(`Blocked login attempt for user "${username}" from ${ip}: locked out for ${retryAfter} seconds`);
+      throw new TooManyAttemptsException(retryAfter);
+    }
+
+    const key = this.userKey(username);
+    const userAttempt = attempts.find(x => x.key === key);
+
+    if (userAttempt && userAttempt.failures >= this.maxFailures) {
+      const delay = Math.min(this.baseUserDelay * Math.pow(2, userAttempt.failures - this.maxFailures), this.maxUserDelay);
+      const nextAttempt = Math.max(userAttempt.lastFailure + delay, userAttempt.lockedUntil);
+
+      if (nextAttempt > Date.now()) {
+        const retryAfter = Math.ceil((nextAttempt - Date.now()) / 1000);
+        this.logger.warn(`Blocked login attempt for user "${username}" from ${ip}: try again in ${retryAfter} seconds`);
+        throw new TooManyAttemptsException(retryAfter);
+      }
+
+      // this attempt takes the whole delay, so parallel requests for the username can't skip it
+      userAttempt.lockedUntil = Date.now() + delay;
+    }
+  }
+
+  /**
+   * Record a failed login attempt against the ip address and username
+   * Only the ip address is locked out, failures for the username slow down further attempts
+   * @param ip
+   * @param username
+   */
+  async recordFailure(ip: string, username: string) {
+    this.logger.warn(`Failed login attempt for user "${username}" from ${ip}`);
+
+    await this.getAttempts();
+    for (const key of [this.ipKey(ip), this.userKey(username)]) {
+      let attempt = this.attempts.find(x => x.key === key);
+
+      if (!attempt) {
+        attempt = { key, failures: 0, lastFailure: 0, lockedUntil: 0 };
+        this.attempts.push(attempt);
+      }
+
+      attempt.failures++;
+      attempt.lastFailure = Date.now();
+
+      if (key === this.ipKey(ip) && attempt.failures >= this.maxFailures) {
+        const lockout = Math.min(this.baseLockout * Math.pow(2, attempt.failures - this.maxFailures), this.maxLockout);
+        attempt.lockedUntil = Date.now() + lockout;
+        this.logger.warn(`Too many failed login attempts, locking out ${key} for ${lockout / 1000} seconds`);
+      }
+    }
+
+    await this.saveAttempts();
+  }
+
+  /**
+   * Clear the failed attempts for the ip address and username after a successful login
+   * @param ip
+   * @param username
+   */
+  async recordSuccess(ip: string, username: string) {
+    const attempts = await this.getAttempts();
+    const keys = [this.ipKey(ip), this.userKey(username)];
+
+    if (!attempts.find(x => keys.includes(x.key))) {
+      return;
+    }
+
+    this.attempts = attempts.filter(x => !keys.includes(x.key));
+    await this.saveAttempts();
+  }
+
+  private ipKey(ip: string) {
+    return `ip:${ip}`;
+  }
+
+  private userKey(username: string) {
+    return `user:${(username || '').toLowerCase()}`;
+  }
+
+  /**
+   * Removes attempts that have expired
+   */
+  private pruneAttempts() {
+    this.attempts = this.attempts.filter(x => x.lockedUntil > Date.now() || x.lastFailure + this.resetAfter > Date.now());
+  }
+
+  /**
+   * Returns all the attempts, lockouts are persisted so they survive a restart
+   */
+  private async getAttempts(): Promise<LoginAttemptInterface[]> {
+    if (!this.attempts) {
+      try {
+        this.attempts = await fs.readJson(this.configService.loginAttemptsPath);
+      } catch (e) {
+        this.attempts = [];
+      }
+
+      if (!Array.isArray(this.attempts)) {
+        this.attempts = [];
+      }
+
+      this.pruneAttempts();
+    }
+    return this.attempts;
+  }
+
+  /**
+   * Saves the attempts file
+   */
+  private async saveAttempts() {
+    this.pruneAttempts();
+    return await fs.writeJson(this.configService.loginAttemptsPath, this.attempts, { mode: 0o600 });
+  }
+}
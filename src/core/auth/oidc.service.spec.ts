@@ -0,0 +1,286 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as jwt from 'jsonwebtoken';
+import * as querystring from 'querystring';
+import { URL } from 'url';
+import { Test } from '@nestjs/testing';
+import { AuthModule } from './auth.module';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { ConfigService } from '../config/config.service';
+import { getConfigEncryptionKey, encryptValue } from '../config/config.secrets';
+
+/**
+ * A minimal OpenID Connect provider that serves the discovery document, signing keys and token endpoint
+ */
+class MockIssuer {
+  public issuer: string;
+
+  // the issuer returned in the discovery document, set to test a provider that claims to be someone else
+  public discoveryIssuer: string;
+
+  private server: http.Server;
+  private codes = new Map<string, { [key: string]: any }>();
+  private keys = (crypto as any).generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  async start() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.issuer = this.discoveryIssuer = `http://127.0.0.1:${(this.server.address() as any).port}`;
+  }
+
+  async stop() {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  /**
+   * Act as the user signing in at the provider, returns the authorization code the browser is sent back with
+   * @param authorizationUrl the url the ui sent the browser to
+   * @param claims claims to add to, or replace in, the id token
+   * @param signingKey sign the id token with a different key
+   */
+  authorize(authorizationUrl: string, claims: { [key: string]: any } = {}, signingKey?) {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = crypto.randomBytes(16).toString('hex');
+
+    this.codes.set(code, {
+      redirectUri: params.get('redirect_uri'),
+      codeChallenge: params.get('code_challenge'),
+      signingKey: signingKey || this.keys.privateKey,
+      claims: {
+        iss: this.issuer,
+        sub: 'user-1',
+        aud: params.get('client_id'),
+        nonce: params.get('nonce'),
+        preferred_username: 'alice',
+        name: 'Alice',
+        ...claims,
+      },
+    });
+
+    return { code, state: params.get('state') };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (status: number, body) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return send(200, {
+        issuer: this.discoveryIssuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+
+    if (req.url === '/jwks') {
+      return send(200, {
+        keys: [{ ...this.keys.publicKey.export({ format: 'jwk' }), kid: 'test-key', use: 'sig', alg: 'RS256' }],
+      });
+    }
+
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const form = querystring.parse(body) as { [key: string]: string };
+        const grant = this.codes.get(form.code);
+        this.codes.delete(form.code);
+
+        const challenge = crypto.createHash('sha256').update(form.code_verifier || '').digest('base64')
+          .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+        if (!grant || grant.redirectUri !== form.redirect_uri || grant.codeChallenge !== challenge) {
+          return send(400, { error: 'invalid_grant' });
+        }
+
+        if (req.headers.authorization !== 'Basic ' + Buffer.from('homebridge:secret').toString('base64')) {
+          return send(401, { error: 'invalid_client' });
+        }
+
+        const privateKey = grant.signingKey.export({ type: 'pkcs8', format: 'pem' });
+        return send(200, {
+          token_type: 'Bearer',
+          id_token: jwt.sign(grant.claims, privateKey, { algorithm: 'RS256', keyid: 'test-key', expiresIn: 300 }),
+        });
+      });
+      return;
+    }
+
+    send(404, { error: 'not_found' });
+  }
+}
+
+describe('OidcService', () => {
+  const storagePath = path.resolve(os.tmpdir(), `uix-oidc-test-${process.pid}`);
+  const mockIssuer = new MockIssuer();
+  const req = { headers: { host: 'homebridge.local:8080' } };
+
+  let authController: AuthController;
+  let authService: AuthService;
+  let configService: ConfigService;
+
+  /**
+   * Start a sign in the same way as the login page, returns the url the browser is redirected to
+   */
+  const startLogin = async () => {
+    const res = { redirect: jest.fn() };
+    await authController.oidcLogin(req, res);
+    return res.redirect.mock.calls[0][1];
+  };
+
+  /**
+   * Finish a sign in when the provider redirects back, returns the parameters passed to the login page
+   */
+  const callback = async (query) => {
+    const res = { redirect: jest.fn() };
+    await authController.oidcCallback(res, query);
+    return querystring.parse(res.redirect.mock.calls[0][1].split('#')[1]) as { [key: string]: string };
+  };
+
+  const signedInAs = (result: { [key: string]: string }) => {
+    expect(result.oidc_error).toBeUndefined();
+    return (jwt.decode(result.access_token) as { [key: string]: any }).username;
+  };
+
+  beforeAll(async () => {
+    await mockIssuer.start();
+
+    await fs.emptyDir(storagePath);
+    await fs.writeJson(path.resolve(storagePath, 'config.json'), {
+      bridge: { name: 'Homebridge', username: '0E:00:00:00:00:00', port: 51826, pin: '031-45-154' },
+      platforms: [{
+        platform: 'config',
+        name: 'Config',
+        port: 8080,
+        auth: 'form',
+        oidc: {
+          issuer: mockIssuer.issuer,
+          clientId: 'homebridge',
+          clientSecret: 'secret',
+          autoProvision: true,
+        },
+      }],
+    });
+
+    process.env.UIX_BASE_PATH = path.resolve(__dirname, '../../..');
+    process.env.UIX_CONFIG_PATH = path.resolve(storagePath, 'config.json');
+    process.env.UIX_STORAGE_PATH = storagePath;
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => null);
+    jest.spyOn(console, 'warn').mockImplementation(() => null);
+    jest.spyOn(console, 'error').mockImplementation(() => null);
+
+    mockIssuer.discoveryIssuer = mockIssuer.issuer;
+
+    // a new module for each test, so the provider settings are loaded again
+    const module = await Test.createTestingModule({
+      imports: [AuthModule],
+    }).compile();
+
+    authController = module.get(AuthController);
+    authService = module.get(AuthService);
+    configService = module.get(ConfigService);
+    await authService.setupAuthFile();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await mockIssuer.stop();
+    await fs.remove(storagePath);
+  });
+
+  it('signs in with the authorization code flow and provisions a linked user', async () => {
+    const result = await callback(mockIssuer.authorize(await startLogin()));
+
+    expect(signedInAs(result)).toEqual('alice');
+    expect(result.refresh_token).toBeTruthy();
+
+    const user = await authService.findByUsername('alice');
+    expect(user.oidcIssuer).toEqual(mockIssuer.issuer);
+    expect(user.oidcSubject).toEqual('user-1');
+  });
+
+  it('signs in when the client secret is encrypted in the config', async () => {
+    configService.ui.oidc.clientSecret = encryptValue(getConfigEncryptionKey(configService.secrets.secretKey), 'secret');
+
+    expect(signedInAs(await callback(mockIssuer.authorize(await startLogin())))).toEqual('alice');
+  });
+
+  it('matches users by subject, not by the username claim', async () => {
+    const result = await callback(mockIssuer.authorize(await startLogin(), { preferred_username: 'admin' }));
+
+    expect(signedInAs(result)).toEqual('alice');
+  });
+
+  it('does not sign in as an existing user with the same username', async () => {
+    const result = await callback(mockIssuer.authorize(await startLogin(), { sub: 'user-2', preferred_username: 'admin' }));
+
+    expect(result.access_token).toBeUndefined();
+    expect(result.oidc_error).toContain('already exists');
+  });
+
+  it('links an account to the signed in user', async () => {
+    const { url } = await authController.oidcLink({ ...req, user: { username: 'admin' } });
+    expect(signedInAs(await callback(mockIssuer.authorize(url, { sub: 'user-2', preferred_username: 'someone' })))).toEqual('admin');
+
+    const result = await callback(mockIssuer.authorize(await startLogin(), { sub: 'user-2', preferred_username: 'someone' }));
+    expect(signedInAs(result)).toEqual('admin');
+  });
+
+  it('rejects a callback with an unknown state', async () => {
+    const { code } = mockIssuer.authorize(await startLogin());
+    const result = await callback({ code, state: 'not-the-state' });
+
+    expect(result.access_token).toBeUndefined();
+    expect(result.oidc_error).toContain('expired or invalid');
+  });
+
+  it('rejects a callback that has already been used', async () => {
+    const query = mockIssuer.authorize(await startLogin());
+    await callback(query);
+    const result = await callback(query);
+
+    expect(result.access_token).toBeUndefined();
+    expect(result.oidc_error).toContain('expired or invalid');
+  });
+
+  it('rejects an id token with a different nonce', async () => {
+    const result = await callback(mockIssuer.authorize(await startLogin(), { nonce: 'not-the-nonce' }));
+
+    expect(result.access_token).toBeUndefined();
+    expect(result.oidc_error).toContain('nonce does not match');
+  });
+
+  it('rejects an id token from a different issuer', async () => {
+    const result = await callback(mockIssuer.authorize(await startLogin(), { iss: 'https://evil.example.com' }));
+
+    expect(result.access_token).toBeUndefined();
+    expect(result.oidc_error).toContain('issuer does not match');
+  });
+
+  it('rejects an id token that was not signed by the provider', async () => {
+    const { privateKey } = (crypto as any).generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const result = await callback(mockIssuer.authorize(await startLogin(), {}, privateKey));
+
+    expect(result.access_token).toBeUndefined();
+    expect(result.oidc_error).toContain('signature is not valid');
+  });
+
+  it('rejects a provider whose discovery document has a different issuer', async () => {
+    mockIssuer.discoveryIssuer = 'https://evil.example.com';
+
+    await expect(startLogin()).rejects.toMatchObject({ message: { message: 'OpenID Connect provider issuer does not match' } });
+  });
+});
@@ -0,0 +1,346 @@
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import * as rp from 'request-promise';
+import { URL } from 'url';
+import { Injectable, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { Logger } from '../logger/logger.service';
+import { getConfigEncryptionKey, isEncryptedValue, decryptValue } from '../config/config.secrets';
+
+interface OidcDiscoveryInterface {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri?: string;
+}
+
+interface OidcJwkInterface {
+  kty: string;
+  kid?: string;
+  use?: string;
+  n?: string;
+  e?: string;
+}
+
+interface OidcPendingLoginInterface {
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  expires: number;
+  linkUsername?: string;
+}
+
+@Injectable()
+export class OidcService {
+  // the provider metadata, loaded from the discovery document on first use
+  private discovery: OidcDiscoveryInterface;
+
+  // the provider signing keys, loaded from the jwks endpoint on first use and again when the provider rotates its keys
+  private jwks: OidcJwkInterface[];
+
+  // logins that have been started but not completed, keyed by the state parameter
+  private pending = new Map<string, OidcPendingLoginInterface>();
+
+  // how long the user has to complete the login at the provider
+  private readonly pendingTimeout = 10 * 60 * 1000;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Returns true if an OpenID Connect provider has been configured
+   */
+  get enabled(): boolean {
+    const oidc = this.configService.ui.oidc;
+    return Boolean(this.configService.ui.auth === 'form' && oidc && oidc.issuer && oidc.clientId);
+  }
+
+  /**
+   * Work out the callback url the provider should redirect the user back to
+   * @param req
+   */
+  getRedirectUri(req): string {
+    if (this.configService.ui.oidc.redirectUri) {
+      return this.configService.ui.oidc.redirectUri;
+    }
+
+    const protocol = this.configService.ui.ssl && (this.configService.ui.ssl.key || this.configService.ui.ssl.pfx) ? 'https' : 'http';
+    return `${protocol}://${req.headers.host}/api/auth/oidc/callback`;
+  }
+
+  /**
+   * Start a new login, returns the url at the provider the user should be sent to
+   * @param redirectUri
+   * @param linkUsername when set, the provider account is linked to this user instead of being used to sign in
+   */
+  async getAuthorizationUrl(redirectUri: string, linkUsername?: string): Promise<string> {
+    this.checkEnabled();
+
+    const discovery = await this.getDiscovery();
+    const oidc = this.configService.ui.oidc;
+
+    const state = this.randomString();
+    const nonce = this.randomString();
+    const codeVerifier = this.randomString();
+
+    this.prunePending();
+    this.pending.set(state, {
+      nonce,
+      codeVerifier,
+      redirectUri,
+      expires: Date.now() + this.pendingTimeout,
+      linkUsername,
+    });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', oidc.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', oidc.scope || 'openid profile email');
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', this.base64url(crypto.createHash('sha256').update(codeVerifier).digest()));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  /**
+   * Complete a login when the provider redirects the user back with an authorization code
+   * Returns the verified claims for the user, and the user to link the provider account to if the login was started to link it
+   * @param query the callback query string
+   */
+  async handleCallback(query: { code?: string, state?: string, error?: string, error_description?: string }) {
+    this.checkEnabled();
+
+    if (query.error) {
+      throw new UnauthorizedException(query.error_description || query.error);
+    }
+
+    const pending = this.pending.get(query.state);
+    this.pending.delete(query.state);
+
+    if (!pending || pending.expires < Date.now()) {
+      throw new BadRequestException('Login request expired or invalid, please try again');
+    }
+
+    if (!query.code) {
+      throw new BadRequestException('Missing authorization code');
+    }
+
+    const discovery = await this.getDiscovery();
+    const oidc = this.configService.ui.oidc;
+
+    const tokens = await rp.post(discovery.token_endpoint, {
+      form: {
+        grant_type: 'authorization_code',
+        code: query.code,
+        redirect_uri: pending.redirectUri,
+        client_id: oidc.clientId,
+        code_verifier: pending.codeVerifier,
+      },
+      auth: oidc.clientSecret ? { user: oidc.clientId, pass: this.getClientSecret() } : undefined,
+      json: true,
+    });
+
+    const claims = await this.verifyIdToken(tokens.id_token, pending.nonce);
+
+    // the userinfo endpoint often has claims, such as groups, that are not in the id token
+    if (discovery.userinfo_endpoint && tokens.access_token) {
+      const userinfo = await rp.get(discovery.userinfo_endpoint, {
+        auth: { bearer: tokens.access_token },
+        json: true,
+      });
+
+      if (userinfo.sub !== claims.sub) {
+        throw new UnauthorizedException('OpenID Connect userinfo subject does not match the id token');
+      }
+
+      // the userinfo response is not signed, so it must not replace the claims that identify the user
+      Object.assign(claims, userinfo, { iss: claims.iss, sub: claims.sub });
+    }
+
+    return { claims, linkUsername: pending.linkUsername };
+  }
+
+  /**
+   * Check the id token was signed by the provider, and was issued for this client and this login
+   * @param idToken
+   * @param nonce
+   */
+  private async verifyIdToken(idToken: string, nonce: string) {
+    const decoded = idToken ? jwt.decode(idToken, { complete: true }) as { header: { [key: string]: any }, payload: { [key: string]: any } } : null;
+
+    if (!decoded || !decoded.payload || !decoded.payload.sub) {
+      throw new UnauthorizedException('OpenID Connect provider did not return a valid id token');
+    }
+
+    const publicKey = await this.getSigningKey(decoded.header.kid);
+
+    try {
+      // expiry is checked below with the other claims
+      jwt.verify(idToken, publicKey, { algorithms: ['RS256', 'RS384', 'RS512'], ignoreExpiration: true });
+    } catch (e) {
+      throw new UnauthorizedException('OpenID Connect id token signature is not valid');
+    }
+
+    const claims = decoded.payload;
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (claims.iss !== this.configService.ui.oidc.issuer) {
+      throw new UnauthorizedException('OpenID Connect id token issuer does not match');
+    }
+
+    if (!audience.includes(this.configService.ui.oidc.clientId)) {
+      throw new UnauthorizedException('OpenID Connect id token was not issued for this client');
+    }
+
+    if (!claims.exp || claims.exp * 1000 < Date.now()) {
+      throw new UnauthorizedException('OpenID Connect id token has expired');
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedException('OpenID Connect id token nonce does not match');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Returns the provider key with the given key id as a PEM public key
+   * The keys are loaded again if the key is not found, as the provider may have rotated its keys
+   * @param kid
+   */
+  private async getSigningKey(kid?: string): Promise<string> {
+    const findKey = () => (this.jwks || [])
+      .filter(x => x.kty === 'RSA' && (!x.use || x.use === 'sig'))
+      .find((x, index, keys) => kid ? x.kid === kid : keys.length === 1);
+
+    let key = findKey();
+
+    if (!key) {
+      const discovery = await this.getDiscovery();
+
+      if (!discovery.jwks_uri) {
+        throw new UnauthorizedException('OpenID Connect provider does not publish its signing keys');
+      }
+
+      try {
+        this.jwks = (await rp.get(discovery.jwks_uri, { json: true })).keys;
+      } catch (e) {
+        this.logger.error(`Failed to load OpenID Connect signing keys from ${discovery.jwks_uri}: ${e.message}`);
+        throw new BadRequestException('Failed to contact the OpenID Connect provider');
+      }
+
+      key = findKey();
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('OpenID Connect id token was not signed with a known key');
+    }
+
+    return this.rsaJwkToPem(key);
+  }
+
+  /**
+   * Convert an RSA json web key to a PEM encoded public key
+   * The key is wrapped in a DER encoded SubjectPublicKeyInfo structure (RFC 5280, RFC 8017)
+   * @param jwk
+   */
+  private rsaJwkToPem(jwk: OidcJwkInterface): string {
+    const encode = (tag: number, content: Buffer) => {
+      let length: Buffer;
+      if (content.length < 0x80) {
+        length = Buffer.from([content.length]);
+      } else {
+        const hex = content.length.toString(16);
+        const bytes = Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex');
+        length = Buffer.concat([Buffer.from([0x80 | bytes.length]), bytes]);
+      }
+      return Buffer.concat([Buffer.from([tag]), length, content]);
+    };
+
+    // integers are signed, so a leading zero is needed when the high bit is set
+    const integer = (value: string) => {
+      const buf = Buffer.from(value, 'base64');
+      return encode(0x02, buf[0] & 0x80 ? Buffer.concat([Buffer.from([0]), buf]) : buf);
+    };
+
+    const rsaPublicKey = encode(0x30, Buffer.concat([integer(jwk.n), integer(jwk.e)]));
+    const rsaEncryption = Buffer.from('300d06092a864886f70d0101010500', 'hex');
+    const spki = encode(0x30, Buffer.concat([rsaEncryption, encode(0x03, Buffer.concat([Buffer.from([0]), rsaPublicKey]))]));
+
+    return `-----BEGIN PUBLIC KEY-----\n${spki.toString('base64').match(/.{1,64}/g).join('\n')}\n-----END PUBLIC KEY-----\n`;
+  }
+
+  /**
+   * Load the provider metadata from the discovery document
+   * The issuer in the document must be the configured issuer (OpenID Connect Discovery 1.0, section 4.3)
+   */
+  private async getDiscovery(): Promise<OidcDiscoveryInterface> {
+    if (!this.discovery) {
+      const issuer = this.configService.ui.oidc.issuer;
+      let discovery: OidcDiscoveryInterface;
+
+      try {
+        discovery = await rp.get(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`, { json: true });
+      } catch (e) {
+        this.logger.error(`Failed to load OpenID Connect discovery document from ${issuer}: ${e.message}`);
+        throw new BadRequestException('Failed to contact the OpenID Connect provider');
+      }
+
+      if (!discovery || discovery.issuer !== issuer) {
+        this.logger.error(`OpenID Connect discovery document issuer ${discovery && discovery.issuer} does not match the configured issuer ${issuer}`);
+        throw new BadRequestException('OpenID Connect provider issuer does not match');
+      }
+
+      this.discovery = discovery;
+    }
+    return this.discovery;
+  }
+
+  /**
+   * Returns the client secret, decrypting it if it has been encrypted in config.json using the encryptSecrets option
+   */
+  private getClientSecret(): string {
+    const clientSecret = this.configService.ui.oidc.clientSecret;
+
+    if (!isEncryptedValue(clientSecret)) {
+      return clientSecret;
+    }
+
+    try {
+      return decryptValue(getConfigEncryptionKey(this.configService.secrets.secretKey), clientSecret);
+    } catch (e) {
+      throw new BadRequestException('The OpenID Connect client secret was encrypted using a different .uix-secrets file and can not be decrypted');
+    }
+  }
+
+  private checkEnabled() {
+    if (!this.enabled) {
+      throw new BadRequestException('OpenID Connect login is not enabled');
+    }
+  }
+
+  /**
+   * Removes logins that were never completed
+   */
+  private prunePending() {
+    for (const [state, pending] of this.pending) {
+      if (pending.expires < Date.now()) {
+        this.pending.delete(state);
+      }
+    }
+  }
+
+  private randomString(): string {
+    return this.base64url(crypto.randomBytes(32));
+  }
+
+  private base64url(buf: Buffer): string {
+    return buf.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+}
@@ -0,0 +1,75 @@
+export type UserRole = 'admin' | 'operator' | 'viewer';
+
+export const Permission = {
+  STATUS_VIEW: 'status:view',
+  ACCESSORIES_VIEW: 'accessories:view',
+  ACCESSORIES_CONTROL: 'accessories:control',
+  LOGS_VIEW: 'logs:view',
+  SERVER_RESTART: 'server:restart',
+  PLUGINS_MANAGE: 'plugins:manage',
+  CONFIG_EDIT: 'config:edit',
+  PLATFORM_MANAGE: 'platform:manage',
+  TERMINAL_ACCESS: 'terminal:access',
+  USERS_MANAGE: 'users:manage',
+  AUDIT_VIEW: 'audit:view',
+  BACKUP_MANAGE: 'backup:manage',
+};
+
+export const allPermissions: string[] = Object.keys(Permission).map(x => Permission[x]);
+
+/**
+ * The permissions granted to each role
+ */
+export const rolePermissions: { [role in UserRole]: string[] } = {
+  viewer: [
+    Permission.STATUS_VIEW,
+    Permission.ACCESSORIES_VIEW,
+  ],
+  operator: [
+    Permission.STATUS_VIEW,
+    Permission.ACCESSORIES_VIEW,
+    Permission.ACCESSORIES_CONTROL,
+    Permission.LOGS_VIEW,
+    Permission.SERVER_RESTART,
+  ],
+  admin: allPermissions,
+};
+
+/**
+ * Returns the role for a user
+ * Users created before roles were introduced only have the admin flag, non-admin users
+ * are treated as operators so they keep the same access they had before
+ * @param user
+ */
+export function getUserRole(user: { role?: UserRole, admin?: boolean }): UserRole {
+  if (user.role && rolePermissions[user.role]) {
+    return user.role;
+  }
+  return user.admin ? 'admin' : 'operator';
+}
+
+/**
+ * Returns the permissions for a user, this is the permissions granted by their role
+ * plus any additional permissions granted to the user directly
+ * @param user
+ */
+export function getUserPermissions(user: { role?: UserRole, admin?: boolean, permissions?: string[] }): string[] {
+  const permissions = new Set(rolePermissions[getUserRole(user)]);
+
+  if (Array.isArray(user.permissions)) {
+    user.permissions
+      .filter(x => allPermissions.includes(x))
+      .forEach(x => permissions.add(x));
+  }
+
+  return Array.from(permissions);
+}
+
+/**
+ * Returns true if the user has all the required permissions
+ * @param user the jwt payload
+ * @param required
+ */
+export function hasPermission(user: { permissions?: string[] }, ...required: string[]): boolean {
+  return Boolean(user && Array.isArray(user.permissions) && required.every(x => user.permissions.includes(x)));
+}
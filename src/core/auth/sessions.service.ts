@@ -0,0 +1,290 @@
+import * as fs from 'fs-extra';
+import * as crypto from 'crypto';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '../config/config.service';
+import { Logger } from '../logger/logger.service';
+
+export interface SessionInterface {
+  id: string;
+  username: string;
+  refreshTokenHash: string;
+  created: string;
+  lastUsed: string;
+  expires: number;
+}
+
+@Injectable()
+export class SessionsService {
+  // session cache, loaded from disk on first use
+  private sessions: SessionInterface[];
+
+  // websocket clients connected using each session
+  private clients = new Map<string, Set<any>>();
+
+  // the refresh token most recently issued for each session, and the hash of the token it replaced
+  // a refresh using the replaced token within the grace period, such as two tabs waking at the same moment,
+  // receives the same new refresh token rather than being treated as reuse
+  private recentRefreshes = new Map<string, { previousHash: string, refreshToken: string, expires: number }>();
+  private readonly refreshGracePeriod = 30 * 1000;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Create a new session for a user
+   * Returns the session and the refresh token, the refresh token is only ever returned once
+   * @param username
+   */
+  async createSession(username: string): Promise<{ session: SessionInterface, refreshToken: string }> {
+    const sessions = await this.getSessions();
+    const secret = this.genSecret();
+
+    const session: SessionInterface = {
+      id: crypto.randomBytes(16).toString('hex'),
+      username,
+      refreshTokenHash: this.hashSecret(secret),
+      created: new Date().toISOString(),
+      lastUsed: new Date().toISOString(),
+      expires: Date.now() + (this.configService.ui.sessionTimeout * 1000),
+    };
+
+    sessions.push(session);
+    await this.saveSessions();
+
+    return {
+      session,
+      refreshToken: `${session.id}.${secret}`,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new refresh token
+   * The old refresh token can no longer be used. If a refresh token is presented a second time
+   * it has most likely been stolen, so the whole session is revoked.
+   * The token that was just replaced is still accepted for a short grace period, and returns the same new refresh token
+   * @param refreshToken
+   */
+  async refreshSession(refreshToken: string): Promise<{ session: SessionInterface, refreshToken: string }> {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    const session = await this.getSession(sessionId);
+
+    if (!session || !secret) {
+      return null;
+    }
+
+    const hash = this.hashSecret(secret);
+
+    if (!this.compareHash(hash, session.refreshTokenHash)) {
+      const recent = this.recentRefreshes.get(session.id);
+      if (recent && recent.expires > Date.now() && this.compareHash(hash, recent.previousHash)) {
+        return { session, refreshToken: recent.refreshToken };
+      }
+
+      this.logger.warn(`Refresh token reuse detected for ${session.username}, revoking session`);
+      await this.revokeSession(session.id);
+      return null;
+    }
+
+    const newSecret = this.genSecret();
+    const newRefreshToken = `${session.id}.${newSecret}`;
+
+    // recorded before the session is saved, so a concurrent refresh with the same token finds it
+    this.recentRefreshes.set(session.id, {
+      previousHash: session.refreshTokenHash,
+      refreshToken: newRefreshToken,
+      expires: Date.now() + this.refreshGracePeriod,
+    });
+
+    session.refreshTokenHash = this.hashSecret(newSecret);
+    session.lastUsed = new Date().toISOString();
+    await this.saveSessions();
+
+    return {
+      session,
+      refreshToken: newRefreshToken,
+    };
+  }
+
+  /**
+   * Returns true if the session exists and has not expired
+   * @param sessionId
+   */
+  async isValid(sessionId: string): Promise<boolean> {
+    return Boolean(await this.getSession(sessionId));
+  }
+
+  /**
+   * Revoke a single session
+   * @param sessionId
+   */
+  async revokeSession(sessionId: string) {
+    const sessions = await this.getSessions();
+    this.sessions = sessions.filter(x => x.id !== sessionId);
+    this.recentRefreshes.delete(sessionId);
+    this.disconnectClients(sessionId);
+    await this.saveSessions();
+  }
+
+  /**
+   * Revoke every session belonging to a user
+   * @param username
+   * @param exceptSessionId a session to keep, such as the one the user is currently signed in with
+   */
+  async revokeUserSessions(username: string, exceptSessionId?: string) {
+    const sessions = await this.getSessions();
+    const revoked = sessions.filter(x => x.username === username && x.id !== exceptSessionId);
+
+    if (!revoked.length) {
+      return;
+    }
+
+    this.sessions = sessions.filter(x => !revoked.includes(x));
+    revoked.forEach((x) => {
+      this.recentRefreshes.delete(x.id);
+      this.disconnectClients(x.id);
+    });
+    await this.saveSessions();
+
+    this.logger.warn(`Revoked ${revoked.length} session(s) for user: ${username}`);
+  }
+
+  /**
+   * Revoke every session, for all users
+   * @param exceptSessionId a session to keep, such as the one the user is currently signed in with
+   */
+  async revokeAllSessions(exceptSessionId?: string) {
+    const sessions = await this.getSessions();
+    const revoked = sessions.filter(x => x.id !== exceptSessionId);
+
+    if (!revoked.length) {
+      return;
+    }
+
+    this.sessions = sessions.filter(x => !revoked.includes(x));
+    revoked.forEach((x) => {
+      this.recentRefreshes.delete(x.id);
+      this.disconnectClients(x.id);
+    });
+    await this.saveSessions();
+
+    this.logger.warn(`Revoked ${revoked.length} session(s)`);
+  }
+
+  /**
+   * Keep track of a websocket client so it can be disconnected if the session or api token is revoked
+   * @param sessionId the session id or api token id
+   * @param client
+   */
+  trackClient(sessionId: string, client) {
+    if (!this.clients.has(sessionId)) {
+      this.clients.set(sessionId, new Set());
+    }
+
+    const clients = this.clients.get(sessionId);
+
+    if (clients.has(client)) {
+      return;
+    }
+
+    clients.add(client);
+
+    client.on('disconnect', () => {
+      clients.delete(client);
+      if (!clients.size) {
+        this.clients.delete(sessionId);
+      }
+    });
+  }
+
+  /**
+   * Disconnect all websocket clients using a session or api token
+   * @param sessionId
+   */
+  disconnectClients(sessionId: string) {
+    const clients = this.clients.get(sessionId);
+
+    if (!clients) {
+      return;
+    }
+
+    for (const client of clients) {
+      try {
+        client.disconnect();
+      } catch (e) { }
+    }
+
+    this.clients.delete(sessionId);
+  }
+
+  /**
+   * Returns a session by it's id, if it has not expired
+   * @param sessionId
+   */
+  private async getSession(sessionId: string): Promise<SessionInterface> {
+    const sessions = await this.getSessions();
+    const session = sessions.find(x => x.id === sessionId);
+
+    if (!session || session.expires < Date.now()) {
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Returns all the sessions, expired sessions are removed when the file is first loaded
+   */
+  private async getSessions(): Promise<SessionInterface[]> {
+    if (!this.sessions) {
+      try {
+        this.sessions = await fs.readJson(this.configService.sessionsPath);
+      } catch (e) {
+        this.sessions = [];
+      }
+
+      if (!Array.isArray(this.sessions)) {
+        this.sessions = [];
+      }
+
+      this.sessions = this.sessions.filter(x => x.expires > Date.now());
+    }
+    return this.sessions;
+  }
+
+  /**
+   * Saves the sessions file
+   */
+  private async saveSessions() {
+    this.sessions = this.sessions.filter(x => x.expires > Date.now());
+    return await fs.writeJson(this.configService.sessionsPath, this.sessions, { mode: 0o600 });
+  }
+
+  /**
+   * Generate a random secret for a refresh token
+   */
+  private genSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Hash a refresh token secret
+   * The secrets are random so a single round of sha256 is sufficient
+   * @param secret
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Compare two hashes in constant time
+   * @param a
+   * @param b
+   */
+  private compareHash(a: string, b: string): boolean {
+    const bufA = Buffer.from(a, 'hex');
+    const bufB = Buffer.from(b, 'hex');
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+  }
+}
@@ -0,0 +1,77 @@
+import * as crypto from 'crypto';
+
+/**
+ * This file is also loaded by the Homebridge process (see ../../index.ts) so must only use node.js built in modules
+ */
+
+// returned in place of secret values, saving it back keeps the existing value
+export const SECRET_MASK = '********';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/**
+ * Derive the key used to encrypt config.json values from the secret key stored in .uix-secrets
+ * @param secretKey
+ */
+export function getConfigEncryptionKey(secretKey: string): Buffer {
+  return crypto.createHmac('sha256', secretKey).update('config.json').digest();
+}
+
+export function isEncryptedValue(value: any): boolean {
+  return typeof value === 'string' && value.indexOf(ENCRYPTED_PREFIX) === 0;
+}
+
+/**
+ * Encrypt a value using aes-256-gcm, the result is in the format enc:v1:<iv>:<auth tag>:<cipher text>
+ * @param key
+ * @param value
+ */
+export function encryptValue(key: Buffer, value: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), encrypted].map(x => x.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a value created by encryptValue, throws if the value was encrypted with a different key
+ * @param key
+ * @param value
+ */
+export function decryptValue(key: Buffer, value: string): string {
+  const [iv, tag, encrypted] = value.substr(ENCRYPTED_PREFIX.length).split(':').map(x => Buffer.from(x || '', 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Decrypt every encrypted value in a config block in place
+ * Values that can not be decrypted are left as they are and passed to onError
+ * @param key
+ * @param value
+ * @param onError
+ */
+export function decryptConfigValues(key: Buffer, value: any, onError?: (e: Error) => void) {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  for (const property of Object.keys(value)) {
+    if (isEncryptedValue(value[property])) {
+      try {
+        value[property] = decryptValue(key, value[property]);
+      } catch (e) {
+        if (onError) {
+          onError(e);
+        }
+      }
+    } else {
+      decryptConfigValues(key, value[property], onError);
+    }
+  }
+
+  return value;
+}
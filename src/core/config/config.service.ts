@@ -27,6 +27,12 @@ export class ConfigService {
   public customPluginPath = process.env.UIX_CUSTOM_PLUGIN_PATH;
   public secretPath = path.resolve(this.storagePath, '.uix-secrets');
   public authPath = path.resolve(this.storagePath, 'auth.json');
+  public sessionsPath = path.resolve(this.storagePath, '.uix-sessions.json');
+  public loginAttemptsPath = path.resolve(this.storagePath, '.uix-login-attempts.json');
+  public apiTokensPath = path.resolve(this.storagePath, '.uix-api-tokens.json');
+  public auditLogPath = path.resolve(this.storagePath, '.uix-audit.jsonl');
+  public scheduledBackupStatusPath = path.resolve(this.storagePath, '.uix-scheduled-backups.json');
+  public pluginJobsPath = path.resolve(this.storagePath, '.uix-plugin-jobs.json');
   public accessoryLayoutPath = path.resolve(this.storagePath, 'accessories', 'uiAccessoriesLayout.json');
   public homebridgeInsecureMode = Boolean(process.env.UIX_INSECURE_MODE);
   public homebridgeNoTimestamps = Boolean(process.env.UIX_LOG_NO_TIMESTAMPS);
@@ -52,7 +58,27 @@ export class ConfigService {
     name: string;
     port: number;
     host?: '::' | '0.0.0.0' | string;
-    auth: 'form' | 'none';
+    auth: 'form' | 'none' | 'proxy';
+    trustedProxies?: string[];
+    proxyAuth?: {
+      header?: string;
+      trustedProxies?: string[];
+      autoProvision?: boolean;
+      autoProvisionRole?: 'operator' | 'viewer';
+    };
+    oidc?: {
+      name?: string;
+      issuer: string;
+      clientId: string;
+      clientSecret?: string;
+      scope?: string;
+      redirectUri?: string;
+      usernameClaim?: string;
+      roleClaim?: string;
+      adminValues?: string[];
+      operatorValues?: string[];
+      autoProvision?: boolean;
+    };
     theme: string;
     sudo?: boolean;
     restart?: string;
@@ -82,6 +108,18 @@ export class ConfigService {
     sessionTimeout?: number;
     websocketCompatibilityMode?: boolean;
     homebridgePackagePath?: string;
+    configBackups?: {
+      keep?: number;
+      keepDailyDays?: number;
+      maxSizeMb?: number;
+    };
+    scheduledBackups?: {
+      cron?: string;
+      path?: string;
+      keep?: number;
+    };
+    encryptSecrets?: boolean;
+    npmRegistry?: string;
   };
 
   public secrets: {
@@ -90,6 +128,9 @@ export class ConfigService {
 
   public instanceId: string;
 
+  // access tokens are short lived, the session itself lasts for ui.sessionTimeout
+  public accessTokenTimeout: number;
+
   constructor() {
     this.homebridgeConfig = fs.readJSONSync(this.configPath);
     this.ui = Array.isArray(this.homebridgeConfig.platforms) ? this.homebridgeConfig.platforms.find(x => x.platform === 'config') : undefined;
@@ -110,10 +151,16 @@ export class ConfigService {
       this.ui.port = 8080;
     }
 
+    if (!this.ui.auth) {
+      this.ui.auth = 'form';
+    }
+
     if (!this.ui.sessionTimeout) {
       this.ui.sessionTimeout = 28800;
     }
 
+    this.accessTokenTimeout = Math.min(900, this.ui.sessionTimeout);
+
     this.secrets = this.getSecrets();
     this.instanceId = this.getInstanceId();
   }
@@ -138,7 +185,11 @@ export class ConfigService {
         branding: this.branding,
         instanceId: this.instanceId,
       },
-      formAuth: Boolean(this.ui.auth !== 'none'),
+      formAuth: Boolean(this.ui.auth !== 'none' && this.ui.auth !== 'proxy'),
+      proxyAuth: Boolean(this.ui.auth === 'proxy'),
+      oidc: (this.ui.auth === 'form' && this.ui.oidc && this.ui.oidc.issuer && this.ui.oidc.clientId) ? {
+        name: this.ui.oidc.name || 'OpenID Connect',
+      } : undefined,
       theme: this.ui.theme || 'teal',
       serverTimestamp: new Date().toISOString(),
     };
@@ -162,7 +213,7 @@ export class ConfigService {
       this.ui.port = parseInt(process.env.HOMEBRIDGE_CONFIG_UI_PORT, 10);
     }
     this.ui.theme = this.ui.theme || process.env.HOMEBRIDGE_CONFIG_UI_THEME || 'teal';
-    this.ui.auth = this.ui.auth || process.env.HOMEBRIDGE_CONFIG_UI_AUTH as 'form' | 'none' || 'form';
+    this.ui.auth = this.ui.auth || process.env.HOMEBRIDGE_CONFIG_UI_AUTH as 'form' | 'none' | 'proxy' || 'form';
     this.ui.temp = this.ui.temp || process.env.HOMEBRIDGE_CONFIG_UI_TEMP || undefined;
     this.ui.loginWallpaper = this.ui.loginWallpaper || process.env.HOMEBRIDGE_CONFIG_UI_LOGIN_WALLPAPER || undefined;
   }
@@ -2,18 +2,61 @@
  * Homebridge Entry Point
  */
 
+import * as fs from 'fs';
 import * as path from 'path';
 import * as child_process from 'child_process';
 import * as commander from 'commander';
 import * as semver from 'semver';
+import { getConfigEncryptionKey, decryptConfigValues } from './core/config/config.secrets';
 
 let homebridge;
 
 export = (api) => {
   homebridge = api;
   homebridge.registerPlatform('homebridge-config-ui-x', 'config', HomebridgeConfigUi);
+  decryptConfigSecrets();
 };
 
+/**
+ * Values in config.json encrypted by the UI are decrypted in memory as each accessory and platform is created,
+ * the plaintext is never written back to disk
+ */
+function decryptConfigSecrets() {
+  const secretPath = path.resolve(homebridge.user.storagePath(), '.uix-secrets');
+
+  let key: Buffer;
+  try {
+    key = getConfigEncryptionKey(JSON.parse(fs.readFileSync(secretPath, 'utf8')).secretKey);
+  } catch (e) {
+    // the ui has not created it's secrets yet, so nothing can have been encrypted
+    return;
+  }
+
+  for (const type of ['accessory', 'platform']) {
+    const getConstructor = homebridge[type];
+
+    if (typeof getConstructor !== 'function') {
+      continue;
+    }
+
+    homebridge[type] = (name: string) => {
+      const pluginConstructor = getConstructor.call(homebridge, name);
+      if (typeof pluginConstructor !== 'function') {
+        return pluginConstructor;
+      }
+
+      return new Proxy(pluginConstructor, {
+        construct: (target, [log, config, ...args]) => {
+          decryptConfigValues(key, config, () => {
+            log.error(`Failed to decrypt a value in the config for ${name}, it may have been encrypted using a different .uix-secrets file`);
+          });
+          return new target(log, config, ...args);
+        },
+      });
+    };
+  }
+}
+
 class HomebridgeConfigUi {
   log;
 
@@ -11,6 +11,7 @@ import { FastifyAdapter, NestFastifyApplication } from '@nestjs/platform-fastify
 import { AppModule } from './app.module';
 import { Logger } from './core/logger/logger.service';
 import { SpaFilter } from './core/spa/spa.filter';
+import { LoginAttemptsFilter } from './core/auth/login-attempts.filter';
 import { ConfigService } from './core/config/config.service';
 import { getStartupConfig } from './core/config/config.startup';
 
@@ -26,6 +27,17 @@ async function bootstrap() {
     } : false,
   });
 
+  // full backup archives are uploaded as raw binary
+  server.addContentTypeParser('application/octet-stream', { parseAs: 'buffer', bodyLimit: 100 * 1024 * 1024 }, (req, body, done) => {
+    done(null, body);
+  });
+
+  // the config editor also accepts yaml and json5, these are parsed by the config editor service
+  const configContentTypes = ['text/yaml', 'application/x-yaml', 'application/yaml', 'application/json5'];
+  server.addContentTypeParser(configContentTypes, { parseAs: 'string' }, (req, body, done) => {
+    done(null, body);
+  });
+
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
     new FastifyAdapter(server),
@@ -96,6 +108,7 @@ async function bootstrap() {
   // setup cors
   app.enableCors({
     origin: ['http://localhost:8080', 'http://localhost:4200'],
+    exposedHeaders: ['ETag', 'Retry-After'],
   });
 
   // validation pipes
@@ -105,8 +118,8 @@ async function bootstrap() {
     skipMissingProperties: true,
   }));
 
-  // serve spa on all 404
-  app.useGlobalFilters(new SpaFilter());
+  // serve spa on all 404, and tell clients how long to wait after too many failed login attempts
+  app.useGlobalFilters(new SpaFilter(), new LoginAttemptsFilter());
 
   logger.warn(`Console v${configService.package.version} is listening on ${startupConfig.host} port ${configService.ui.port}`);
   await app.listen(configService.ui.port, startupConfig.host);
@@ -1,6 +1,9 @@
 import { Controller, UseGuards, Get, Req, Post, Body } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { AccessoriesService } from './accessories.service';
+import { PermissionsGuard } from '../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 
 @UseGuards(AuthGuard())
 @Controller('accessories')
@@ -9,11 +12,15 @@ export class AccessoriesController {
     private accessoriesService: AccessoriesService,
   ) { }
 
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.ACCESSORIES_VIEW)
   @Get()
   getAccessoryLayout(@Req() req) {
     return this.accessoriesService.getAccessoryLayout(req.user.username);
   }
 
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.ACCESSORIES_VIEW)
   @Post()
   saveAccessoryLayout(@Req() req, @Body() body) {
     return this.accessoriesService.saveAccessoryLayout(req.user.username, body);
@@ -1,9 +1,12 @@
 import { SubscribeMessage, WebSocketGateway } from '@nestjs/websockets';
 import { UseGuards } from '@nestjs/common';
-import { WsGuard } from '../../core/auth/guards/ws.guard';
+import { WsPermissionsGuard } from '../../core/auth/guards/ws-permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 import { AccessoriesService } from './accessories.service';
 
-@UseGuards(WsGuard)
+@UseGuards(WsPermissionsGuard)
+@Permissions(Permission.ACCESSORIES_VIEW)
 @WebSocketGateway({ namespace: 'accessories' })
 export class AccessoriesGateway {
   constructor(
@@ -5,12 +5,14 @@ import { AccessoriesGateway } from './accessories.gateway';
 import { ConfigModule } from '../../core/config/config.module';
 import { LoggerModule } from '../../core/logger/logger.module';
 import { AccessoriesController } from './accessories.controller';
+import { AuthModule } from '../../core/auth/auth.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     ConfigModule,
     LoggerModule,
+    AuthModule,
   ],
   providers: [
     AccessoriesService,
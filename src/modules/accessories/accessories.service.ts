@@ -3,6 +3,8 @@ import { Injectable } from '@nestjs/common';
 import { HapClient, ServiceType } from '@oznu/hap-client';
 import { ConfigService } from '../../core/config/config.service';
 import { Logger } from '../../core/logger/logger.service';
+import { AuthService } from '../../core/auth/auth.service';
+import { Permission, hasPermission } from '../../core/auth/permissions';
 
 @Injectable()
 export class AccessoriesService {
@@ -14,6 +16,7 @@ export class AccessoriesService {
   constructor(
     private readonly configService: ConfigService,
     private readonly logger: Logger,
+    private readonly authService: AuthService,
   ) { }
 
   /**
@@ -35,6 +38,17 @@ export class AccessoriesService {
 
     // handling incoming requests
     const requestHandler = async (msg?) => {
+      // viewing accessories does not grant permission to control them
+      try {
+        const user = await this.authService.verifyWsConnection(client);
+        if (!hasPermission(user, Permission.ACCESSORIES_CONTROL)) {
+          this.logger.warn(`User ${user.username} does not have permission to control accessories`);
+          return;
+        }
+      } catch (e) {
+        return;
+      }
+
       if (msg.set) {
         const service: ServiceType = services.find(x => x.aid === msg.set.aid && x.iid === msg.set.siid);
         await service.setCharacteristic(msg.set.iid, msg.set.value);
@@ -0,0 +1,36 @@
+import { Controller, UseGuards, Get, Post, Body, Req, Res } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { BackupService } from './backup.service';
+import { AuditService } from '../../core/audit/audit.service';
+import { PermissionsGuard } from '../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
+
+@UseGuards(AuthGuard())
+@Controller('backup')
+export class BackupController {
+  constructor(
+    private readonly backupService: BackupService,
+    private readonly auditService: AuditService,
+  ) { }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.BACKUP_MANAGE)
+  @Get('/download')
+  async downloadBackup(@Req() req, @Res() res) {
+    const archive = await this.backupService.createBackup();
+    await this.auditService.logRequest(req, 'backup.download', 'homebridge');
+
+    const filename = `homebridge-backup-${new Date().toISOString().split('.')[0].replace(/:/g, '-')}.tar.gz`;
+    res.header('Content-Disposition', `attachment; filename="${filename}"`);
+    res.type('application/gzip');
+    return res.send(archive);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.BACKUP_MANAGE)
+  @Post('/restore')
+  uploadBackup(@Body() body) {
+    return this.backupService.uploadBackup(body);
+  }
+}
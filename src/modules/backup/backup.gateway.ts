@@ -0,0 +1,33 @@
+import { UseGuards } from '@nestjs/common';
+import { SubscribeMessage, WebSocketGateway, WsException } from '@nestjs/websockets';
+import * as color from 'bash-color';
+import { BackupService } from './backup.service';
+import { Logger } from '../../core/logger/logger.service';
+import { AuditService } from '../../core/audit/audit.service';
+import { WsPermissionsGuard } from '../../core/auth/guards/ws-permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
+
+@UseGuards(WsPermissionsGuard)
+@Permissions(Permission.BACKUP_MANAGE)
+@WebSocketGateway({ namespace: '/backup' })
+export class BackupGateway {
+
+  constructor(
+    private backupService: BackupService,
+    private logger: Logger,
+    private auditService: AuditService,
+  ) { }
+
+  @SubscribeMessage('restore')
+  async restoreBackup(client, payload) {
+    try {
+      await this.auditService.logClient(client, 'backup.restore', 'homebridge');
+      return await this.backupService.restoreBackup(client);
+    } catch (e) {
+      this.logger.error(e);
+      client.emit('stdout', '\n\r' + color.red(e.toString()) + '\n\r');
+      return new WsException(e.message);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { PassportModule } from '@nestjs/passport';
+import { BackupService } from './backup.service';
+import { BackupController } from './backup.controller';
+import { BackupGateway } from './backup.gateway';
+import { ConfigModule } from '../../core/config/config.module';
+import { LoggerModule } from '../../core/logger/logger.module';
+import { AuthModule } from '../../core/auth/auth.module';
+import { AuditModule } from '../../core/audit/audit.module';
+import { PluginsModule } from '../plugins/plugins.module';
+import { ConfigEditorModule } from '../config-editor/config-editor.module';
+
+@Module({
+  imports: [
+    PassportModule.register({ defaultStrategy: 'jwt' }),
+    ConfigModule,
+    LoggerModule,
+    AuditModule,
+    AuthModule,
+    PluginsModule,
+    ConfigEditorModule,
+  ],
+  providers: [
+    BackupService,
+    BackupGateway,
+  ],
+  controllers: [
+    BackupController,
+  ],
+  exports: [
+    BackupService,
+  ],
+})
+export class BackupModule { }
@@ -0,0 +1,122 @@
+// npm is never run in these tests, the native module is not built for the node version the tests run on
+jest.mock('node-pty-prebuilt-multiarch', () => ({ spawn: jest.fn() }));
+
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as tar from 'tar';
+import { Test } from '@nestjs/testing';
+import { ConfigModule } from '../../core/config/config.module';
+import { LoggerModule } from '../../core/logger/logger.module';
+import { AuthModule } from '../../core/auth/auth.module';
+import { SessionsService } from '../../core/auth/sessions.service';
+import { ApiTokensService } from '../../core/auth/api-tokens.service';
+import { getConfigEncryptionKey, encryptValue } from '../../core/config/config.secrets';
+import { PluginsModule } from '../plugins/plugins.module';
+import { PluginsService } from '../plugins/plugins.service';
+import { ConfigEditorModule } from '../config-editor/config-editor.module';
+import { BackupService } from './backup.service';
+
+describe('BackupService', () => {
+  const storagePath = path.resolve(os.tmpdir(), `uix-backup-service-test-${process.pid}`);
+  const configPath = path.resolve(storagePath, 'config.json');
+
+  const config = {
+    bridge: { name: 'Homebridge', username: '0E:00:00:00:00:00', port: 51826, pin: '031-45-154' },
+    accessories: [],
+    platforms: [{ platform: 'config', name: 'Config', port: 8080 }],
+  };
+
+  // the secret key in the backup is different to the one in use when it is restored
+  const restoredSecretKey = crypto.randomBytes(32).toString('hex');
+
+  let backupService: BackupService;
+  let sessionsService: SessionsService;
+  let apiTokensService: ApiTokensService;
+  let client;
+
+  /**
+   * Create a backup archive containing the given config and the restored .uix-secrets file
+   */
+  const createArchive = async (backupConfig) => {
+    const directory = await fs.mkdtemp(path.join(storagePath, 'backup-'));
+    await fs.outputJson(path.resolve(directory, 'manifest.json'), { createdAt: new Date().toISOString(), uiVersion: '4.6.0', plugins: [] });
+    await fs.outputJson(path.resolve(directory, 'storage', 'config.json'), backupConfig);
+    await fs.outputJson(path.resolve(directory, 'storage', '.uix-secrets'), { secretKey: restoredSecretKey });
+    await fs.outputJson(path.resolve(directory, 'storage', '.uix-api-tokens.json'), []);
+
+    await tar.c({ gzip: true, cwd: directory, file: path.resolve(directory, 'backup.tar.gz') }, ['manifest.json', 'storage']);
+    return fs.readFile(path.resolve(directory, 'backup.tar.gz'));
+  };
+
+  beforeAll(async () => {
+    process.env.UIX_BASE_PATH = path.resolve(__dirname, '../../..');
+    process.env.UIX_CONFIG_PATH = configPath;
+    process.env.UIX_STORAGE_PATH = storagePath;
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => null);
+    jest.spyOn(console, 'warn').mockImplementation(() => null);
+    jest.spyOn(console, 'error').mockImplementation(() => null);
+
+    await fs.emptyDir(storagePath);
+    await fs.writeJson(configPath, config);
+    await fs.writeJson(path.resolve(storagePath, 'auth.json'), [{ id: 1, username: 'admin', name: 'Admin', admin: true }]);
+
+    const module = await Test.createTestingModule({
+      imports: [ConfigModule, LoggerModule, AuthModule, PluginsModule, ConfigEditorModule],
+      providers: [BackupService],
+    }).compile();
+
+    backupService = module.get(BackupService);
+    sessionsService = module.get(SessionsService);
+    apiTokensService = module.get(ApiTokensService);
+
+    jest.spyOn(module.get(PluginsService), 'getInstalledPlugins').mockResolvedValue([]);
+    jest.spyOn(module.get(PluginsService), 'getInstalledPluginConfigSchemas').mockResolvedValue([]);
+
+    // the version of fs.copy used here can't stat files in the test environment, only single files are copied in these tests
+    jest.spyOn(fs, 'copy').mockImplementation((src: string, dest: string) => fs.copyFile(src, dest));
+
+    client = { user: { username: 'admin' }, emit: jest.fn() };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.remove(storagePath);
+  });
+
+  it('saves the restored config using the restored secret key', async () => {
+    const encrypted = encryptValue(getConfigEncryptionKey(restoredSecretKey), 'password');
+    const backupConfig = { ...config, platforms: [...config.platforms, { platform: 'Example', name: 'Example', password: encrypted }] };
+
+    await backupService.uploadBackup(await createArchive(backupConfig));
+    await backupService.restoreBackup(client);
+
+    // encryptSecrets is not enabled in the restored config, so the value is only saved decrypted if the restored key was used
+    expect((await fs.readJson(configPath)).platforms[1].password).toEqual('password');
+    expect(await fs.readJson(path.resolve(storagePath, '.uix-secrets'))).toEqual({ secretKey: restoredSecretKey });
+  });
+
+  it('signs out other sessions and blocks creating api tokens until a restart', async () => {
+    const { session } = await sessionsService.createSession('admin');
+    const { session: otherSession } = await sessionsService.createSession('admin');
+    await apiTokensService.createToken('admin', 'Existing', ['status:view'], ['status:view']);
+    client.user.sid = session.id;
+
+    await backupService.uploadBackup(await createArchive(config));
+    await backupService.restoreBackup(client);
+
+    expect(await sessionsService.isValid(session.id)).toBe(true);
+    expect(await sessionsService.isValid(otherSession.id)).toBe(false);
+
+    // the token list is read from the restored file rather than the cache
+    expect(await apiTokensService.getUserTokens('admin')).toEqual([]);
+    await expect(apiTokensService.createToken('admin', 'New', ['status:view'], ['status:view'])).rejects.toThrow('restart Homebridge');
+  });
+});
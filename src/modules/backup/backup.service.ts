@@ -0,0 +1,333 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as tar from 'tar';
+import * as color from 'bash-color';
+import * as schedule from 'node-schedule';
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Logger } from '../../core/logger/logger.service';
+import { ConfigService } from '../../core/config/config.service';
+import { PluginsService } from '../plugins/plugins.service';
+import { PluginJobsService } from '../plugins/plugin-jobs.service';
+import { ConfigEditorService } from '../config-editor/config-editor.service';
+import { ConfigSecretsService } from '../config-editor/config-secrets.service';
+import { SessionsService } from '../../core/auth/sessions.service';
+import { ApiTokensService } from '../../core/auth/api-tokens.service';
+
+export interface BackupManifest {
+  createdAt: string;
+  uiVersion: string;
+  plugins: Array<{ name: string, version: string }>;
+}
+
+export interface ScheduledBackupStatus {
+  enabled: boolean;
+  cron?: string;
+  path?: string;
+  nextRun?: string;
+  lastSuccess?: string;
+  lastFailure?: string;
+  // only set while the most recent scheduled backup has failed
+  lastError?: string;
+}
+
+@Injectable()
+export class BackupService {
+  // the files and directories in the storage path that are included in a backup, config.json is always included
+  private readonly storageItems = [
+    'auth.json',
+    '.uix-secrets',
+    '.uix-api-tokens.json',
+    'persist',
+    'accessories',
+    'startup.sh',
+    '.docker.env',
+  ];
+
+  // the directory an uploaded backup archive has been extracted to, waiting to be restored
+  private restoreDirectory: string;
+
+  private scheduledBackupJob: schedule.Job;
+  private scheduledBackupError: string;
+
+  // a scheduled backup that failed before its result could be saved to the status file
+  private scheduledBackupFailure: { lastFailure: string, lastError: string };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: Logger,
+    private readonly pluginsService: PluginsService,
+    private readonly pluginJobsService: PluginJobsService,
+    private readonly configEditorService: ConfigEditorService,
+    private readonly configSecretsService: ConfigSecretsService,
+    private readonly sessionsService: SessionsService,
+    private readonly apiTokensService: ApiTokensService,
+  ) {
+    this.scheduleBackups();
+  }
+
+  /**
+   * Create a backup archive (tar.gz) of config.json, the storage path essentials
+   * and a manifest listing the installed plugins
+   */
+  public async createBackup(): Promise<Buffer> {
+    const backupDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'homebridge-backup-'));
+
+    try {
+      const storageDirectory = path.resolve(backupDirectory, 'storage');
+      await fs.ensureDir(storageDirectory);
+
+      await fs.copy(this.configService.configPath, path.resolve(storageDirectory, 'config.json'));
+
+      for (const item of this.storageItems) {
+        if (await fs.pathExists(path.resolve(this.configService.storagePath, item))) {
+          await fs.copy(path.resolve(this.configService.storagePath, item), path.resolve(storageDirectory, item));
+        }
+      }
+
+      const manifest: BackupManifest = {
+        createdAt: new Date().toISOString(),
+        uiVersion: this.configService.package.version,
+        plugins: (await this.pluginsService.getInstalledPlugins())
+          .map(x => ({ name: x.name, version: x.installedVersion })),
+      };
+
+      await fs.writeJson(path.resolve(backupDirectory, 'manifest.json'), manifest, { spaces: 2 });
+
+      const archivePath = path.resolve(backupDirectory, 'backup.tar.gz');
+      await tar.c({ gzip: true, portable: true, cwd: backupDirectory, file: archivePath }, ['manifest.json', 'storage']);
+
+      return await fs.readFile(archivePath);
+    } finally {
+      await fs.remove(backupDirectory);
+    }
+  }
+
+  /**
+   * Extract an uploaded backup archive so it can be restored
+   * Returns the manifest so the user can review the plugins that will be installed
+   * @param archive
+   */
+  public async uploadBackup(archive: Buffer): Promise<BackupManifest> {
+    if (!Buffer.isBuffer(archive) || !archive.length) {
+      throw new BadRequestException('The backup archive must be uploaded as application/octet-stream');
+    }
+
+    await this.clearPendingRestore();
+
+    const restoreDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'homebridge-restore-'));
+
+    try {
+      const archivePath = path.resolve(restoreDirectory, 'backup.tar.gz');
+      await fs.writeFile(archivePath, archive);
+
+      // only the manifest and storage directory are extracted, anything else in the archive is ignored
+      await tar.x({
+        file: archivePath,
+        cwd: restoreDirectory,
+        filter: (entryPath: string) => entryPath === 'manifest.json' || entryPath.indexOf('storage/') === 0,
+      });
+
+      await fs.remove(archivePath);
+
+      const manifest: BackupManifest = await fs.readJson(path.resolve(restoreDirectory, 'manifest.json'));
+
+      if (!Array.isArray(manifest.plugins) || !await fs.pathExists(path.resolve(restoreDirectory, 'storage', 'config.json'))) {
+        throw new Error('missing config.json');
+      }
+
+      this.restoreDirectory = restoreDirectory;
+      return manifest;
+    } catch (e) {
+      await fs.remove(restoreDirectory);
+      this.logger.error(`Failed to read backup archive: ${e.message}`);
+      throw new BadRequestException('The uploaded file is not a valid Homebridge backup archive');
+    }
+  }
+
+  /**
+   * Restore the uploaded backup, then reinstall the plugins listed in it's manifest
+   * @param client
+   */
+  public async restoreBackup(client) {
+    if (!this.restoreDirectory) {
+      throw new Error('No backup archive has been uploaded.');
+    }
+
+    const restoreDirectory = this.restoreDirectory;
+    this.restoreDirectory = null;
+
+    try {
+      const manifest: BackupManifest = await fs.readJson(path.resolve(restoreDirectory, 'manifest.json'));
+      const storageDirectory = path.resolve(restoreDirectory, 'storage');
+
+      client.emit('stdout', color.cyan(`Restoring backup created ${manifest.createdAt}\n\r\n\r`));
+
+      // encrypted values in the restored config can only be decrypted using the restored .uix-secrets,
+      // so it's key is used to save the config, and any values that are encrypted during the save
+      const restoredSecrets = await fs.readJson(path.resolve(storageDirectory, '.uix-secrets')).catch(() => null);
+      if (restoredSecrets && restoredSecrets.secretKey) {
+        this.configSecretsService.setSecretKey(restoredSecrets.secretKey);
+      }
+
+      // saved the same way as the config editor, so the current config is kept in the config backups
+      // and the restored config is validated and written atomically
+      try {
+        await this.configEditorService.updateConfigFile(await fs.readJson(path.resolve(storageDirectory, 'config.json')));
+      } catch (e) {
+        this.configSecretsService.setSecretKey(this.configService.secrets.secretKey);
+
+        // http exceptions wrap the error message in a response object
+        throw new Error(`Failed to restore config.json: ${(e.message && e.message.message) || e.message}`);
+      }
+      client.emit('stdout', `Restored config.json\n\r`);
+
+      for (const item of this.storageItems) {
+        if (await fs.pathExists(path.resolve(storageDirectory, item))) {
+          await fs.copy(path.resolve(storageDirectory, item), path.resolve(this.configService.storagePath, item));
+          client.emit('stdout', `Restored ${item}\n\r`);
+        }
+      }
+
+      // the restored users and api tokens replace the current ones, only the session restoring the backup is kept
+      this.apiTokensService.reloadTokens();
+      await this.sessionsService.revokeAllSessions(client.user && client.user.sid);
+
+      // plugins already installed at the same version are left alone
+      const installedPlugins = await this.pluginsService.getInstalledPlugins();
+      const failedPlugins: string[] = [];
+
+      for (const plugin of manifest.plugins) {
+        if (plugin.name === this.configService.name ||
+          installedPlugins.find(x => x.name === plugin.name && x.installedVersion === plugin.version)) {
+          continue;
+        }
+
+        client.emit('stdout', color.cyan(`\n\rInstalling ${plugin.name}@${plugin.version}\n\r`));
+
+        // queued with the other plugin jobs, so npm is never run twice at once and the install is kept in the job history
+        try {
+          const job = await this.pluginJobsService.queueJob(client, 'install', plugin.name, plugin.version,
+            (output) => this.pluginsService.installPlugin(plugin.name, output, plugin.version));
+          await this.pluginJobsService.waitForJob(client, job.id);
+        } catch (e) {
+          failedPlugins.push(plugin.name);
+          client.emit('stdout', color.red(`Failed to install ${plugin.name}: ${e}\n\r`));
+        }
+      }
+
+      if (failedPlugins.length) {
+        client.emit('stdout', color.yellow(`\n\rThe following plugins could not be installed: ${failedPlugins.join(', ')}\n\r`));
+      }
+
+      client.emit('stdout', color.green(`\n\rRestore complete. Other sessions have been signed out.\n\r`));
+      client.emit('stdout', color.green(`Restart Homebridge to apply the restored backup.\n\r`));
+      this.logger.warn(`Restored backup created ${manifest.createdAt}`);
+
+      return { failedPlugins };
+    } finally {
+      await fs.remove(restoreDirectory);
+    }
+  }
+
+  /**
+   * Returns the scheduled backup settings and the result of the last scheduled backups
+   */
+  public async getScheduledBackupStatus(): Promise<ScheduledBackupStatus> {
+    const settings = this.configService.ui.scheduledBackups;
+
+    if (!settings || !settings.cron) {
+      return { enabled: false };
+    }
+
+    const lastRun = await fs.readJson(this.configService.scheduledBackupStatusPath).catch(() => ({}));
+    const failure = this.scheduledBackupFailure;
+
+    return {
+      enabled: true,
+      cron: settings.cron,
+      path: this.scheduledBackupPath,
+      nextRun: this.scheduledBackupJob ? this.scheduledBackupJob.nextInvocation().toISOString() : undefined,
+      lastSuccess: lastRun.lastSuccess,
+      lastFailure: failure ? failure.lastFailure : lastRun.lastFailure,
+      lastError: this.scheduledBackupError || (failure ? failure.lastError : lastRun.lastError),
+    };
+  }
+
+  /**
+   * Create a backup in the scheduled backup directory, then remove the oldest backups over the "keep" limit
+   */
+  public async runScheduledBackup() {
+    const keep = this.configService.ui.scheduledBackups.keep || 7;
+    const lastRun = await fs.readJson(this.configService.scheduledBackupStatusPath).catch(() => ({}));
+
+    try {
+      await fs.ensureDir(this.scheduledBackupPath);
+
+      const archive = await this.createBackup();
+      const filename = `homebridge-backup-${new Date().toISOString().split('.')[0].replace(/:/g, '-')}.tar.gz`;
+      await fs.writeFile(path.resolve(this.scheduledBackupPath, filename), archive, { mode: 0o600 });
+
+      // the timestamp in the file name sorts oldest first
+      const backups = (await fs.readdir(this.scheduledBackupPath))
+        .filter(x => /^homebridge-backup-.*\.tar\.gz$/.test(x))
+        .sort()
+        .reverse();
+
+      for (const backup of backups.slice(keep)) {
+        await fs.unlink(path.resolve(this.scheduledBackupPath, backup));
+      }
+
+      lastRun.lastSuccess = new Date().toISOString();
+      delete lastRun.lastError;
+      this.logger.log(`Scheduled backup saved to ${path.resolve(this.scheduledBackupPath, filename)}`);
+    } catch (e) {
+      lastRun.lastFailure = new Date().toISOString();
+      lastRun.lastError = e.message;
+      this.logger.error(`Scheduled backup failed: ${e.message}`);
+    }
+
+    await fs.writeJson(this.configService.scheduledBackupStatusPath, lastRun);
+    this.scheduledBackupFailure = null;
+  }
+
+  /**
+   * The directory scheduled backups are saved to, relative paths are relative to the storage path
+   */
+  private get scheduledBackupPath() {
+    return path.resolve(this.configService.storagePath, this.configService.ui.scheduledBackups.path || 'backups');
+  }
+
+  /**
+   * Start the scheduled backups when a cron expression is set in the config
+   */
+  private scheduleBackups() {
+    const settings = this.configService.ui.scheduledBackups;
+
+    if (!settings || !settings.cron) {
+      return;
+    }
+
+    this.scheduledBackupJob = schedule.scheduleJob(settings.cron, () => {
+      this.runScheduledBackup().catch((e) => {
+        this.scheduledBackupFailure = { lastFailure: new Date().toISOString(), lastError: e.message };
+        this.logger.error(`Scheduled backup failed: ${e.message}`);
+      });
+    });
+
+    if (!this.scheduledBackupJob) {
+      this.scheduledBackupError = `Invalid cron expression: ${settings.cron}`;
+      this.logger.error(`Scheduled backups are disabled. ${this.scheduledBackupError}`);
+    }
+  }
+
+  /**
+   * Remove a previously uploaded backup that was never restored
+   */
+  private async clearPendingRestore() {
+    if (this.restoreDirectory) {
+      await fs.remove(this.restoreDirectory);
+      this.restoreDirectory = null;
+    }
+  }
+}
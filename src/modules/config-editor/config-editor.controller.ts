@@ -1,42 +1,142 @@
-import { Controller, UseGuards, Get, Post, Body, Param, Delete } from '@nestjs/common';
+import { Controller, UseGuards, Get, Post, Body, Param, Delete, Req, Res, Query, Headers } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { ConfigEditorService } from './config-editor.service';
-import { AdminGuard } from '../../core/auth/guards/admin.guard';
+import { ConfigEditorService, ConfigFormat } from './config-editor.service';
+import { ConfigValidationService } from './config-validation.service';
+import { ConfigSecretsService } from './config-secrets.service';
+import { ConfigImportService } from './config-import.service';
+import { ConfigRestoreBlocksDto, ConfigImportPreviewDto, ConfigImportDto } from './config-editor.dto';
+import { AuditService } from '../../core/audit/audit.service';
+import { PermissionsGuard } from '../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 
 @UseGuards(AuthGuard())
 @Controller('config-editor')
 export class ConfigEditorController {
   constructor(
     private configEditorService: ConfigEditorService,
+    private configValidationService: ConfigValidationService,
+    private configSecretsService: ConfigSecretsService,
+    private configImportService: ConfigImportService,
+    private auditService: AuditService,
   ) { }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
   @Get()
-  getConfig() {
-    return this.configEditorService.getConfigFile();
+  async getConfig(@Res() res, @Query('format') format: string) {
+    const { config, revision } = await this.configEditorService.getConfigFileWithRevision();
+    res.header('ETag', `"${revision}"`);
+    return this.sendConfig(res, await this.configSecretsService.maskSecrets(config), this.configEditorService.parseConfigFormat(format));
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
   @Post()
-  updateConfig(@Body() body) {
-    return this.configEditorService.updateConfigFile(body);
+  async updateConfig(@Req() req, @Res() res, @Body() body, @Headers('if-match') ifMatch: string, @Query('format') format: string) {
+    // the If-Match header is optional, saves without it always overwrite the current config
+    const revision = (ifMatch && ifMatch.trim() !== '*') ? ifMatch.trim().replace(/^W\//, '').replace(/"/g, '') : undefined;
+
+    // the config is returned in the format it was sent in, unless another format is requested
+    const bodyFormat = this.configEditorService.getConfigFormat(req.headers['content-type']);
+    const responseFormat = format ? this.configEditorService.parseConfigFormat(format) : bodyFormat;
+
+    const config = await this.configEditorService.updateConfigFile(this.configEditorService.parseConfigText(body, bodyFormat), revision);
+    await this.auditService.logRequest(req, 'config.update', 'config.json');
+
+    res.header('ETag', `"${await this.configEditorService.getConfigRevision()}"`);
+    return this.sendConfig(res, await this.configSecretsService.maskSecrets(config), responseFormat);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
+  @Post('/validate')
+  validateConfig(@Body() body, @Headers('content-type') contentType: string) {
+    return this.configValidationService.validateConfig(
+      this.configEditorService.parseConfigText(body, this.configEditorService.getConfigFormat(contentType)),
+    );
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
+  @Post('/outline')
+  getConfigOutline(@Body() body, @Headers('content-type') contentType: string) {
+    return this.configEditorService.getConfigOutline(
+      this.configEditorService.parseConfigText(body, this.configEditorService.getConfigFormat(contentType)),
+    );
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
+  @Post('/convert')
+  convertConfig(@Res() res, @Body() body, @Headers('content-type') contentType: string, @Query('format') format: string) {
+    const config = this.configEditorService.parseConfigText(body, this.configEditorService.getConfigFormat(contentType));
+    return this.sendConfig(res, config, this.configEditorService.parseConfigFormat(format));
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
+  @Post('/import/preview')
+  previewImport(@Body() body: ConfigImportPreviewDto) {
+    return this.configImportService.previewImport(body.config);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
+  @Post('/import')
+  async importConfig(@Req() req, @Body() body: ConfigImportDto) {
+    const config = await this.configImportService.importBlocks(body.config, body.paths);
+    await this.auditService.logRequest(req, 'config.import', 'config.json', { paths: body.paths });
+    return this.configSecretsService.maskSecrets(config);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
   @Get('/backups')
   listConfigBackups() {
     return this.configEditorService.listConfigBackups();
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
   @Get('/backups/:backupId(\\d+)')
-  getBackup(@Param() param) {
-    return this.configEditorService.getConfigBackup(param.backupId);
+  async getBackup(@Param() param) {
+    return this.configSecretsService.maskSecrets(await this.configEditorService.readConfigBackup(param.backupId));
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
+  @Get('/backups/:backupId(\\d+)/diff')
+  diffBackup(@Param() param, @Query('compareTo') compareTo: string) {
+    return this.configEditorService.diffConfigBackup(param.backupId, compareTo);
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
+  @Post('/backups/:backupId(\\d+)/restore')
+  async restoreBackupBlocks(@Req() req, @Param() param, @Body() body: ConfigRestoreBlocksDto) {
+    const config = await this.configEditorService.restoreConfigBackupBlocks(param.backupId, body.keys);
+    await this.auditService.logRequest(req, 'config.restore', 'config.json', { backupId: param.backupId, keys: body.keys });
+    return this.configSecretsService.maskSecrets(config);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
   @Delete('/backups')
-  deleteAllConfigBackups() {
-    return this.configEditorService.deleteAllConfigBackups();
+  async deleteAllConfigBackups(@Req() req) {
+    await this.configEditorService.deleteAllConfigBackups();
+    await this.auditService.logRequest(req, 'config.backups.delete', 'config.json');
+  }
+
+  /**
+   * Send a config as json, or as text when yaml or json5 is requested
+   */
+  private sendConfig(res, config, format: ConfigFormat) {
+    if (format === 'json') {
+      return res.send(config);
+    }
+    // sent as a buffer, otherwise fastify would serialize the text again as it has a json content type
+    res.type(format === 'yaml' ? 'text/yaml; charset=utf-8' : 'application/json5; charset=utf-8');
+    return res.send(Buffer.from(this.configEditorService.formatConfigText(config, format)));
   }
 }
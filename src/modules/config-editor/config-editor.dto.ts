@@ -0,0 +1,25 @@
+import { IsArray, ArrayNotEmpty, IsString, IsDefined } from 'class-validator';
+
+export class ConfigRestoreBlocksDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  readonly keys: string[];
+}
+
+// tslint:disable-next-line: max-classes-per-file
+export class ConfigImportPreviewDto {
+  @IsDefined()
+  readonly config: any;
+}
+
+// tslint:disable-next-line: max-classes-per-file
+export class ConfigImportDto {
+  @IsDefined()
+  readonly config: any;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  readonly paths: string[];
+}
@@ -1,24 +1,35 @@
 import { Module } from '@nestjs/common';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigEditorService } from './config-editor.service';
+import { ConfigValidationService } from './config-validation.service';
+import { ConfigSecretsService } from './config-secrets.service';
+import { ConfigImportService } from './config-import.service';
 import { ConfigEditorController } from './config-editor.controller';
 import { ConfigModule } from '../../core/config/config.module';
 import { LoggerModule } from '../../core/logger/logger.module';
+import { AuditModule } from '../../core/audit/audit.module';
+import { PluginsModule } from '../plugins/plugins.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     LoggerModule,
+    AuditModule,
     ConfigModule,
+    PluginsModule,
   ],
   providers: [
     ConfigEditorService,
+    ConfigValidationService,
+    ConfigSecretsService,
+    ConfigImportService,
   ],
   controllers: [
     ConfigEditorController,
   ],
   exports: [
     ConfigEditorService,
+    ConfigSecretsService,
   ],
 })
 export class ConfigEditorModule { }
@@ -1,14 +1,73 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { Injectable } from '@nestjs/common';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import * as yaml from 'js-yaml';
+import * as JSON5 from 'json5';
+import { Injectable, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
 import { Logger } from '../../core/logger/logger.service';
 import { ConfigService, HomebridgeConfig } from '../../core/config/config.service';
+import { ConfigValidationService } from './config-validation.service';
+import { ConfigSecretsService } from './config-secrets.service';
+import { PluginsService } from '../plugins/plugins.service';
+
+export interface ConfigValueChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  from?: any;
+  to?: any;
+}
+
+export interface ConfigBlockDiff {
+  key: string;
+  section: 'bridge' | 'accessories' | 'platforms' | 'plugins' | 'other';
+  label: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  from?: any;
+  to?: any;
+  changes: ConfigValueChange[];
+}
+
+export interface ConfigOutlineItem {
+  path: string;
+  section: ConfigBlockDiff['section'];
+  label: string;
+  type?: string;
+  name?: string;
+  pluginName?: string;
+}
+
+export type ConfigFormat = 'json' | 'yaml' | 'json5';
+
+export interface ConfigBackup {
+  id: string;
+  timestamp: Date;
+  file: string;
+  size: number;
+  compressed: boolean;
+}
+
+interface ConfigBlock {
+  key: string;
+  section: ConfigBlockDiff['section'];
+  label: string;
+  value: any;
+}
 
 @Injectable()
 export class ConfigEditorService {
+  // saves are queued so the revision check and write of one save can not be interleaved with another
+  private saveQueue: Promise<any> = Promise.resolve();
+
+  // retention runs after every save, queued so two saves never prune the same files
+  private retentionQueue: Promise<void> = Promise.resolve();
+
   constructor(
     private readonly configService: ConfigService,
     private readonly logger: Logger,
+    private readonly configValidationService: ConfigValidationService,
+    private readonly configSecretsService: ConfigSecretsService,
+    private readonly pluginsService: PluginsService,
   ) { }
 
   /**
@@ -18,12 +77,194 @@ export class ConfigEditorService {
     return await fs.readJson(this.configService.configPath);
   }
 
+  /**
+   * Returns the config file along with it's current revision
+   */
+  public async getConfigFileWithRevision(): Promise<{ config: HomebridgeConfig, revision: string }> {
+    const contents = await fs.readFile(this.configService.configPath);
+    return {
+      config: JSON.parse(contents.toString('utf8')),
+      revision: this.hashConfig(contents),
+    };
+  }
+
+  /**
+   * Returns the revision of the config file, this changes whenever the file is modified
+   */
+  public async getConfigRevision(): Promise<string> {
+    return this.hashConfig(await fs.readFile(this.configService.configPath));
+  }
+
+  /**
+   * Returns the format of a config sent to the config editor, based on the content-type header
+   * @param contentType
+   */
+  public getConfigFormat(contentType: string): ConfigFormat {
+    if (/^(text|application)\/(x-)?yaml/i.test(contentType || '')) {
+      return 'yaml';
+    }
+    if (/^application\/json5/i.test(contentType || '')) {
+      return 'json5';
+    }
+    return 'json';
+  }
+
+  /**
+   * Check the format requested for a config editor response, defaults to json
+   * @param format
+   */
+  public parseConfigFormat(format: string): ConfigFormat {
+    if (!format) {
+      return 'json';
+    }
+    if (!['json', 'yaml', 'json5'].includes(format)) {
+      throw new BadRequestException(`Unknown config format: ${format}`);
+    }
+    return format as ConfigFormat;
+  }
+
+  /**
+   * Parse a config sent to the config editor as yaml or json5, json bodies are already parsed
+   * Only values that can be represented in config.json are accepted, parse errors include the line and column
+   * @param body
+   * @param format
+   */
+  public parseConfigText(body: any, format: ConfigFormat): HomebridgeConfig {
+    if (format === 'json' || typeof body !== 'string') {
+      return body;
+    }
+
+    let config: any;
+    try {
+      config = format === 'yaml' ? yaml.safeLoad(body, { schema: yaml.JSON_SCHEMA }) : JSON5.parse(body);
+    } catch (e) {
+      // js-yaml positions are zero based, json5 positions start at one
+      const line = e.mark ? e.mark.line + 1 : e.lineNumber;
+      const column = e.mark ? e.mark.column + 1 : e.columnNumber;
+
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Invalid ${format === 'yaml' ? 'YAML' : 'JSON5'}: ${(e.reason || e.message).replace(/^JSON5: /, '').replace(/ at \d+:\d+$/, '')}` +
+          ` (line ${line}, column ${column})`,
+        line,
+        column,
+      });
+    }
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      throw new BadRequestException('The config must be an object');
+    }
+
+    const invalidPath = this.findNonJsonValue(config, '');
+    if (invalidPath !== undefined) {
+      throw new BadRequestException(`The value at ${invalidPath} can not be saved in config.json`);
+    }
+
+    return config;
+  }
+
+  /**
+   * Convert a config to the text returned by the config editor in the given format
+   * @param config
+   * @param format
+   */
+  public formatConfigText(config: HomebridgeConfig, format: ConfigFormat): string {
+    switch (format) {
+      case 'yaml':
+        return yaml.safeDump(config, { noRefs: true, lineWidth: -1 });
+      case 'json5':
+        return JSON5.stringify(config, null, 4) + '\n';
+      default:
+        return JSON.stringify(config, null, 4) + '\n';
+    }
+  }
+
+  /**
+   * Returns the sections of a config in the order they appear, used to navigate the config editor
+   * Accessories and platforms include the name of the plugin that provides them, when it can be found
+   * @param config
+   */
+  public async getConfigOutline(config: HomebridgeConfig): Promise<ConfigOutlineItem[]> {
+    const outline: ConfigOutlineItem[] = [];
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return outline;
+    }
+
+    let schemas: Array<{ pluginName: string, configSchema: any }> = [];
+    try {
+      schemas = (await this.pluginsService.getInstalledPluginConfigSchemas()).filter(x => x.configSchema);
+    } catch (e) {
+      this.logger.error(`Failed to load plugin config schemas for the config outline: ${e.message}`);
+    }
+
+    for (const property of Object.keys(config)) {
+      const section = ['bridge', 'accessories', 'platforms', 'plugins'].includes(property) ? property as ConfigOutlineItem['section'] : 'other';
+      const propertyPath = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(property) ? property : `[${JSON.stringify(property)}]`;
+
+      if ((section === 'accessories' || section === 'platforms') && Array.isArray(config[property])) {
+        const typeKey = section === 'accessories' ? 'accessory' : 'platform';
+
+        config[property].forEach((block, index) => {
+          const type = (block && typeof block[typeKey] === 'string') ? block[typeKey] : undefined;
+          const name = (block && typeof block.name === 'string') ? block.name : undefined;
+
+          // blocks can also be given as <plugin name>.<alias>
+          const pluginSchema = type ? schemas.find(x => x.configSchema.pluginType === typeKey && x.configSchema.pluginAlias === type) : undefined;
+          const pluginName = pluginSchema ? pluginSchema.pluginName : (type && type.includes('.')) ? type.split('.')[0] : undefined;
+
+          outline.push({
+            path: `${propertyPath}[${index}]`,
+            section,
+            label: name && name !== type ? `${name} (${type || typeKey})` : type || name || typeKey,
+            type,
+            name,
+            pluginName,
+          });
+        });
+      } else {
+        outline.push({
+          path: propertyPath,
+          section,
+          label: section === 'bridge' ? 'Bridge' : section === 'plugins' ? 'Plugins' : property,
+        });
+      }
+    }
+
+    return outline;
+  }
+
   /**
    * Updates the config file
+   * @param config
+   * @param revision when set, the save is rejected if the config file has been modified since this revision was loaded
+   */
+  public async updateConfigFile(config: HomebridgeConfig, revision?: string): Promise<HomebridgeConfig> {
+    const save = this.saveQueue.then(() => this.saveConfigFile(config, revision));
+    this.saveQueue = save.catch(() => null);
+    return save;
+  }
+
+  /**
+   * Validates and writes the config file, keeping a backup of the existing file
+   * @param config
+   * @param revision
    */
-  public async updateConfigFile(config: HomebridgeConfig) {
+  private async saveConfigFile(config: HomebridgeConfig, revision?: string) {
     const now = new Date();
 
+    const { config: currentConfig, revision: currentRevision } = await this.getConfigFileWithRevision();
+
+    if (revision && currentRevision !== revision) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: 'config.json has been modified since it was loaded',
+        revision: currentRevision,
+      });
+    }
+
     if (!config) {
       config = {} as HomebridgeConfig;
     }
@@ -65,40 +306,79 @@ export class ConfigEditorService {
       delete config.plugins;
     }
 
+    // secrets are returned to the client masked, unchanged values are restored from the current config
+    config = await this.configSecretsService.unmaskSecrets(config, currentConfig);
+
+    // refuse to save a config that would stop homebridge from starting
+    const validation = await this.configValidationService.validateConfig(this.configSecretsService.decryptSecrets(config));
+    if (validation.errors.length) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `config.json is invalid: ${validation.errors[0].message}`,
+        errors: validation.errors,
+        warnings: validation.warnings,
+      });
+    }
+
+    config = await this.configSecretsService.applySecretsEncryption(config);
+
+    // write the new config to a temporary file first, so config.json is never missing or partially written
+    const tempPath = `${this.configService.configPath}.tmp`;
+    const fd = await fs.open(tempPath, 'w');
+    try {
+      await fs.writeFile(fd, JSON.stringify(config, null, 4) + '\n');
+      await fs.fsync(fd);
+    } finally {
+      await fs.close(fd);
+    }
+
     // create backup of existing config
-    await fs.rename(this.configService.configPath, `${this.configService.configPath}.${now.getTime()}`);
+    await fs.copy(this.configService.configPath, `${this.configService.configPath}.${now.getTime()}`, { preserveTimestamps: true });
 
-    // save config file
-    fs.writeJsonSync(this.configService.configPath, config, { spaces: 4 });
+    // replace the config file
+    await fs.rename(tempPath, this.configService.configPath);
 
     this.logger.log('Changes to config.json saved.');
 
+    this.retentionQueue = this.retentionQueue
+      .then(() => this.applyBackupRetention())
+      .catch((e) => {
+        this.logger.error(`Failed to clean up config backups: ${e.message}`);
+      });
+
     return config;
   }
 
   /**
    * List config backups
    */
-  public async listConfigBackups() {
+  public async listConfigBackups(): Promise<ConfigBackup[]> {
     const dirContents = await fs.readdir(this.configService.storagePath);
 
     const backups = dirContents
       .filter(x => x.indexOf('config.json.') === 0)
-      .sort()
-      .reverse()
       .map(x => {
         const ext = x.split('.');
-        if (ext.length === 3 && !isNaN(ext[2] as any)) {
+        const compressed = ext.length === 4 && ext[3] === 'gz';
+        if ((ext.length === 3 || compressed) && /^\d+$/.test(ext[2])) {
           return {
             id: ext[2],
             timestamp: new Date(parseInt(ext[2], 10)),
             file: x,
+            size: 0,
+            compressed,
           };
         } else {
           return null;
         }
       })
-      .filter((x => x && !isNaN(x.timestamp.getTime())));
+      .filter((x => x && !isNaN(x.timestamp.getTime())))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    for (const backup of backups) {
+      backup.size = (await fs.stat(path.resolve(this.configService.storagePath, backup.file))).size;
+    }
 
     return backups;
   }
@@ -107,14 +387,125 @@ export class ConfigEditorService {
    * Returns a config backup
    * @param backupId
    */
-  public async getConfigBackup(backupId: string) {
+  public async getConfigBackup(backupId: string): Promise<Buffer> {
+    const backupPath = this.configService.configPath + '.' + parseInt(backupId, 10);
+
+    // backups outside the most recent few are compressed
+    if (await fs.pathExists(backupPath + '.gz')) {
+      return zlib.gunzipSync(await fs.readFile(backupPath + '.gz'));
+    }
+
     // check backup file exists
-    if (!await fs.pathExists(this.configService.configPath + '.' + parseInt(backupId, 10))) {
-      throw new Error(`Backup ${backupId} Not Found`);
+    if (!await fs.pathExists(backupPath)) {
+      throw new NotFoundException(`Backup ${backupId} Not Found`);
     }
 
     // read source backup
-    return await fs.readFile(this.configService.configPath + '.' + parseInt(backupId, 10));
+    return await fs.readFile(backupPath);
+  }
+
+  /**
+   * Compare a backup with the current config, or with another backup
+   * Each bridge, accessory, platform and other top level section is compared separately so they can be restored individually
+   * @param backupId the older config, changes are shown from this config
+   * @param compareTo the id of another backup, or "current" to compare with the current config
+   */
+  public async diffConfigBackup(backupId: string, compareTo: string = 'current') {
+    // secrets are masked before comparing, so changes to them are not shown
+    const from = await this.configSecretsService.maskSecrets(await this.readConfigBackup(backupId));
+    const to = await this.configSecretsService.maskSecrets(
+      (compareTo && compareTo !== 'current') ? await this.readConfigBackup(compareTo) : await this.getConfigFile(),
+    );
+
+    const fromBlocks = this.getConfigBlocks(from);
+    const toBlocks = this.getConfigBlocks(to);
+
+    // blocks in the order they appear in the newer config, followed by any that have been removed
+    const keys = toBlocks.map(x => x.key).concat(fromBlocks.map(x => x.key).filter(key => !toBlocks.find(x => x.key === key)));
+
+    const blocks: ConfigBlockDiff[] = keys.map((key) => {
+      const fromBlock = fromBlocks.find(x => x.key === key);
+      const toBlock = toBlocks.find(x => x.key === key);
+      const changes: ConfigValueChange[] = [];
+
+      this.diffValues(fromBlock ? fromBlock.value : undefined, toBlock ? toBlock.value : undefined, '', changes);
+
+      return {
+        key,
+        section: (toBlock || fromBlock).section,
+        label: (toBlock || fromBlock).label,
+        status: !fromBlock ? 'added' : !toBlock ? 'removed' : changes.length ? 'changed' : 'unchanged',
+        from: fromBlock ? fromBlock.value : undefined,
+        to: toBlock ? toBlock.value : undefined,
+        changes: (fromBlock && toBlock) ? changes : [],
+      } as ConfigBlockDiff;
+    });
+
+    return {
+      from: backupId,
+      to: (compareTo && compareTo !== 'current') ? compareTo : 'current',
+      blocks,
+    };
+  }
+
+  /**
+   * Restore selected blocks from a backup into the current config
+   * Blocks that were added since the backup was taken are removed
+   * @param backupId
+   * @param keys the keys of the blocks to restore, as returned by diffConfigBackup
+   */
+  public async restoreConfigBackupBlocks(backupId: string, keys: string[]) {
+    const backup = await this.readConfigBackup(backupId);
+    const { config, revision } = await this.getConfigFileWithRevision();
+
+    const backupBlocks = this.getConfigBlocks(backup);
+    const currentBlocks = this.getConfigBlocks(config);
+
+    const replace = new Map<any, any>();
+    const remove = new Set<any>();
+
+    for (const key of keys) {
+      const backupBlock = backupBlocks.find(x => x.key === key);
+      const currentBlock = currentBlocks.find(x => x.key === key);
+
+      if (!backupBlock && !currentBlock) {
+        throw new BadRequestException(`Unknown config block: ${key}`);
+      }
+
+      const { section } = backupBlock || currentBlock;
+
+      if (section === 'accessories' || section === 'platforms') {
+        if (!Array.isArray(config[section])) {
+          config[section] = [];
+        }
+        if (backupBlock && currentBlock) {
+          replace.set(currentBlock.value, backupBlock.value);
+        } else if (backupBlock) {
+          config[section].push(backupBlock.value);
+        } else {
+          remove.add(currentBlock.value);
+        }
+      } else {
+        const property = section === 'other' ? key.substr('other:'.length) : section;
+        if (backupBlock) {
+          config[property] = backupBlock.value;
+        } else {
+          delete config[property];
+        }
+      }
+    }
+
+    for (const section of ['accessories', 'platforms']) {
+      if (Array.isArray(config[section])) {
+        config[section] = config[section]
+          .filter(x => !remove.has(x))
+          .map(x => replace.has(x) ? replace.get(x) : x);
+      }
+    }
+
+    this.logger.log(`Restoring ${keys.length} section(s) of config.json from backup ${backupId}`);
+
+    return this.updateConfigFile(config, revision);
   }
 
   /**
@@ -124,9 +515,193 @@ export class ConfigEditorService {
     const backups = await this.listConfigBackups();
 
     // delete each backup file
-    await backups.forEach(async (backupFile) => {
-      await fs.unlink(path.resolve(this.configService.storagePath, backupFile.file));
+    await Promise.all(backups.map(backupFile => fs.unlink(path.resolve(this.configService.storagePath, backupFile.file))));
+  }
+
+  /**
+   * Remove and compress backups according to the ui.configBackups settings
+   *  - the most recent "keep" backups are always kept, uncompressed
+   *  - older backups are kept, compressed, for "keepDailyDays" days, one per day
+   *  - the oldest backups are then removed until the total is under "maxSizeMb"
+   */
+  public async applyBackupRetention() {
+    const settings = this.configService.ui.configBackups || {};
+    const keep = typeof settings.keep === 'number' ? Math.max(settings.keep, 1) : 20;
+    const keepDailyDays = typeof settings.keepDailyDays === 'number' ? settings.keepDailyDays : 30;
+    const maxSize = (settings.maxSizeMb || 0) * 1024 * 1024;
+
+    const backups = await this.listConfigBackups();
+    const retained: ConfigBackup[] = [];
+    const expired: ConfigBackup[] = [];
+    const days = new Set<string>();
+    const dailyCutoff = Date.now() - (keepDailyDays * 86400000);
+
+    backups.forEach((backup, index) => {
+      const day = backup.timestamp.toDateString();
+      if (index < keep || (backup.timestamp.getTime() > dailyCutoff && !days.has(day))) {
+        days.add(day);
+        retained.push(backup);
+      } else {
+        expired.push(backup);
+      }
     });
+
+    for (const backup of expired) {
+      await fs.unlink(path.resolve(this.configService.storagePath, backup.file));
+    }
+
+    for (const backup of retained.slice(keep).filter(x => !x.compressed)) {
+      const backupPath = path.resolve(this.configService.storagePath, backup.file);
+      await fs.writeFile(backupPath + '.gz', zlib.gzipSync(await fs.readFile(backupPath)));
+      await fs.unlink(backupPath);
+      backup.file += '.gz';
+      backup.size = (await fs.stat(backupPath + '.gz')).size;
+      backup.compressed = true;
+    }
+
+    if (maxSize) {
+      // the most recent backup is never removed
+      let total = 0;
+      for (const backup of retained) {
+        total += backup.size;
+        if (total > maxSize && backup !== retained[0]) {
+          await fs.unlink(path.resolve(this.configService.storagePath, backup.file));
+          expired.push(backup);
+        }
+      }
+    }
+
+    if (expired.length) {
+      this.logger.log(`Removed ${expired.length} old config backup(s)`);
+    }
+  }
+
+  /**
+   * Read and parse a config backup
+   * @param backupId
+   */
+  public async readConfigBackup(backupId: string): Promise<HomebridgeConfig> {
+    const backup = await this.getConfigBackup(backupId);
+
+    try {
+      return JSON.parse(backup.toString('utf8'));
+    } catch (e) {
+      throw new BadRequestException(`Backup ${backupId} is not valid JSON`);
+    }
+  }
+
+  /**
+   * Returns the path of the first value that would be changed or lost by JSON.stringify, such as Infinity or NaN
+   * @param value
+   * @param valuePath
+   */
+  private findNonJsonValue(value: any, valuePath: string): string {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? undefined : valuePath;
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return ['string', 'boolean'].includes(typeof value) || value === null ? undefined : valuePath;
+    }
+
+    for (const key of Object.keys(value)) {
+      const keyPath = Array.isArray(value) ? `${valuePath}[${key}]` :
+        /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${valuePath ? valuePath + '.' : ''}${key}` : `${valuePath}[${JSON.stringify(key)}]`;
+      const invalidPath = this.findNonJsonValue(value[key], keyPath);
+      if (invalidPath !== undefined) {
+        return invalidPath;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Split a config into the parts that can be compared and restored individually
+   * Accessories and platforms are matched using their type and name
+   * @param config
+   */
+  private getConfigBlocks(config: HomebridgeConfig): ConfigBlock[] {
+    const blocks: ConfigBlock[] = [];
+
+    if (typeof config !== 'object' || config === null) {
+      return blocks;
+    }
+
+    if (config.bridge !== undefined) {
+      blocks.push({ key: 'bridge', section: 'bridge', label: 'Bridge', value: config.bridge });
+    }
+
+    for (const [section, typeKey] of [['accessories', 'accessory'], ['platforms', 'platform']] as Array<['accessories' | 'platforms', string]>) {
+      if (!Array.isArray(config[section])) {
+        continue;
+      }
+
+      const seen = new Map<string, number>();
+      for (const block of config[section]) {
+        const type = (block && block[typeKey]) || '';
+        const name = (block && block.name) || '';
+
+        // blocks with the same type and name are matched in the order they appear
+        let key = `${typeKey}:${type}:${name}`;
+        seen.set(key, (seen.get(key) || 0) + 1);
+        if (seen.get(key) > 1) {
+          key += `#${seen.get(key)}`;
+        }
+
+        blocks.push({ key, section, label: name && name !== type ? `${name} (${type})` : type || name, value: block });
+      }
+    }
+
+    if (config.plugins !== undefined) {
+      blocks.push({ key: 'plugins', section: 'plugins', label: 'Plugins', value: config.plugins });
+    }
+
+    for (const property of Object.keys(config).filter(x => !['bridge', 'accessories', 'platforms', 'plugins'].includes(x))) {
+      blocks.push({ key: `other:${property}`, section: 'other', label: property, value: config[property] });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Recursively compare two values, adding each difference to the list of changes
+   * @param from
+   * @param to
+   * @param valuePath
+   * @param changes
+   */
+  private diffValues(from: any, to: any, valuePath: string, changes: ConfigValueChange[]) {
+    const isObject = (value) => typeof value === 'object' && value !== null;
+
+    if (from === undefined && to === undefined) {
+      return;
+    } else if (from === undefined) {
+      changes.push({ path: valuePath, type: 'added', to });
+    } else if (to === undefined) {
+      changes.push({ path: valuePath, type: 'removed', from });
+    } else if (isObject(from) && isObject(to) && Array.isArray(from) === Array.isArray(to)) {
+      if (Array.isArray(from)) {
+        for (let i = 0; i < Math.max(from.length, to.length); i++) {
+          this.diffValues(from[i], to[i], `${valuePath}[${i}]`, changes);
+        }
+      } else {
+        const keys = Object.keys(to).concat(Object.keys(from).filter(x => !(x in to)));
+        for (const key of keys) {
+          this.diffValues(from[key], to[key], valuePath ? `${valuePath}.${key}` : key, changes);
+        }
+      }
+    } else if (from !== to) {
+      changes.push({ path: valuePath, type: 'changed', from, to });
+    }
+  }
+
+  /**
+   * Hash the contents of the config file to use as it's revision
+   * @param contents
+   */
+  private hashConfig(contents: Buffer) {
+    return crypto.createHash('sha1').update(contents).digest('hex');
   }
 
   /**
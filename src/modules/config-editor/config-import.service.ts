@@ -0,0 +1,262 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Logger } from '../../core/logger/logger.service';
+import { HomebridgeConfig } from '../../core/config/config.service';
+import { SECRET_MASK, isEncryptedValue } from '../../core/config/config.secrets';
+import { PluginsService } from '../plugins/plugins.service';
+import { ConfigEditorService } from './config-editor.service';
+
+export interface ConfigImportCollision {
+  type: 'name' | 'singular' | 'username' | 'port' | 'secret';
+  message: string;
+}
+
+export interface ConfigImportBlock {
+  path: string;
+  section: 'bridge' | 'accessories' | 'platforms';
+  label: string;
+  type?: string;
+  name?: string;
+  replaces?: string;
+  collisions: ConfigImportCollision[];
+}
+
+@Injectable()
+export class ConfigImportService {
+  constructor(
+    private readonly configEditorService: ConfigEditorService,
+    private readonly pluginsService: PluginsService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * List the bridge, accessories and platforms in a config.json from another instance that can be imported into this one
+   * Each block lists the block in the current config it would replace, and anything it collides with
+   * @param config
+   */
+  public async previewImport(config: HomebridgeConfig): Promise<ConfigImportBlock[]> {
+    return this.getImportBlocks(config, await this.configEditorService.getConfigFile());
+  }
+
+  /**
+   * Import blocks from a config.json from another instance into the current config
+   * Blocks with the same type and name as an existing block, or for plugins that only support a single block, replace it
+   * @param config
+   * @param paths the paths of the blocks to import, as returned by previewImport
+   */
+  public async importBlocks(config: HomebridgeConfig, paths: string[]): Promise<HomebridgeConfig> {
+    const { config: current, revision } = await this.configEditorService.getConfigFileWithRevision();
+    const blocks = await this.getImportBlocks(config, current);
+
+    const replace = new Map<any, any>();
+
+    for (const importPath of paths) {
+      const block = blocks.find(x => x.path === importPath);
+
+      if (!block) {
+        throw new BadRequestException(`Unknown config block: ${importPath}`);
+      }
+
+      if (block.section === 'bridge') {
+        current.bridge = config.bridge;
+        continue;
+      }
+
+      const value = config[block.section][parseInt(importPath.match(/\[(\d+)\]$/)[1], 10)];
+
+      if (!Array.isArray(current[block.section])) {
+        current[block.section] = [];
+      }
+
+      if (block.replaces) {
+        replace.set(current[block.section][parseInt(block.replaces.match(/\[(\d+)\]$/)[1], 10)], value);
+      } else {
+        current[block.section].push(value);
+      }
+    }
+
+    for (const section of ['accessories', 'platforms']) {
+      if (Array.isArray(current[section])) {
+        current[section] = current[section].map(x => replace.has(x) ? replace.get(x) : x);
+      }
+    }
+
+    this.logger.log(`Imported ${paths.length} block(s) into config.json`);
+
+    return this.configEditorService.updateConfigFile(current, revision);
+  }
+
+  private async getImportBlocks(config: HomebridgeConfig, current: HomebridgeConfig): Promise<ConfigImportBlock[]> {
+    if (!this.isObject(config) || (config.accessories !== undefined && !Array.isArray(config.accessories)) ||
+      (config.platforms !== undefined && !Array.isArray(config.platforms))) {
+      throw new BadRequestException('The uploaded file is not a valid config.json');
+    }
+
+    const blocks: ConfigImportBlock[] = [];
+    const singular = await this.getSingularPlugins();
+
+    if (this.isObject(config.bridge)) {
+      const collisions: ConfigImportCollision[] = [];
+
+      if (this.isObject(current.bridge) && config.bridge.username && config.bridge.username === current.bridge.username) {
+        collisions.push({
+          type: 'username',
+          message: 'The bridge username is the same as this instance, two bridges with the same username can not run on the same network',
+        });
+      }
+
+      this.checkPort(config.bridge.port, this.getPorts(current, ['bridge.port']), collisions);
+
+      blocks.push({ path: 'bridge', section: 'bridge', label: 'Bridge', name: config.bridge.name, replaces: 'bridge', collisions });
+    }
+
+    for (const [section, typeKey] of [['accessories', 'accessory'], ['platforms', 'platform']] as Array<['accessories' | 'platforms', string]>) {
+      if (!Array.isArray(config[section])) {
+        continue;
+      }
+
+      const currentBlocks: any[] = Array.isArray(current[section]) ? current[section] : [];
+
+      config[section].forEach((block, index) => {
+        if (!this.isObject(block) || typeof block[typeKey] !== 'string') {
+          return;
+        }
+
+        const type: string = block[typeKey];
+        const name: string = typeof block.name === 'string' ? block.name : undefined;
+        const collisions: ConfigImportCollision[] = [];
+
+        // blocks are matched by type and name, or by type alone for plugins that only support a single block
+        let replaceIndex = currentBlocks.findIndex(x => this.isObject(x) && x[typeKey] === type && x.name === name);
+        if (replaceIndex > -1) {
+          collisions.push({
+            type: 'name',
+            message: `A ${typeKey} with the same type and name already exists, it will be replaced`,
+          });
+        } else if (singular.has(`${typeKey}:${type}`)) {
+          replaceIndex = currentBlocks.findIndex(x => this.isObject(x) && x[typeKey] === type);
+          if (replaceIndex > -1) {
+            collisions.push({
+              type: 'singular',
+              message: `${singular.get(`${typeKey}:${type}`)} only supports a single ${typeKey} block, the existing block will be replaced`,
+            });
+          }
+        }
+
+        const replaces = replaceIndex > -1 ? `${section}[${replaceIndex}]` : undefined;
+        const ports = this.getPorts(current, replaces ? [`${replaces}.port`, `${replaces}._bridge.port`] : []);
+
+        this.checkPort(block.port, ports, collisions);
+
+        if (this.isObject(block._bridge)) {
+          this.checkPort(block._bridge.port, ports, collisions);
+
+          const usernames = [current.bridge && current.bridge.username]
+            .concat(currentBlocks.filter((x, i) => i !== replaceIndex && this.isObject(x) && this.isObject(x._bridge)).map(x => x._bridge.username));
+          if (block._bridge.username && usernames.includes(block._bridge.username)) {
+            collisions.push({
+              type: 'username',
+              message: `The bridge username ${block._bridge.username} is already used in this instance`,
+            });
+          }
+        }
+
+        if (this.hasForeignSecrets(block)) {
+          collisions.push({
+            type: 'secret',
+            message: 'Contains secret values that were masked or encrypted by the other instance, they may need to be entered again',
+          });
+        }
+
+        blocks.push({
+          path: `${section}[${index}]`,
+          section,
+          label: name && name !== type ? `${name} (${type})` : type,
+          type,
+          name,
+          replaces,
+          collisions,
+        });
+      });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Returns the ports used by the current config, with the path that uses them
+   * @param current
+   * @param exclude paths of ports that will be replaced by the import
+   */
+  private getPorts(current: HomebridgeConfig, exclude: string[]): Map<number, string> {
+    const ports = new Map<number, string>();
+    const add = (port, portPath: string) => {
+      if (Number.isInteger(port) && !exclude.includes(portPath) && !ports.has(port)) {
+        ports.set(port, portPath);
+      }
+    };
+
+    if (this.isObject(current.bridge)) {
+      add(current.bridge.port, 'bridge.port');
+    }
+
+    for (const section of ['accessories', 'platforms']) {
+      if (Array.isArray(current[section])) {
+        current[section].forEach((block, index) => {
+          if (this.isObject(block)) {
+            add(block.port, `${section}[${index}].port`);
+            if (this.isObject(block._bridge)) {
+              add(block._bridge.port, `${section}[${index}]._bridge.port`);
+            }
+          }
+        });
+      }
+    }
+
+    return ports;
+  }
+
+  private checkPort(port: any, ports: Map<number, string>, collisions: ConfigImportCollision[]) {
+    if (ports.has(port)) {
+      collisions.push({
+        type: 'port',
+        message: `Port ${port} is already used by ${ports.get(port)}`,
+      });
+    }
+  }
+
+  /**
+   * Masked or encrypted values from another instance can not be restored or decrypted by this one
+   */
+  private hasForeignSecrets(value: any): boolean {
+    if (value === SECRET_MASK || isEncryptedValue(value)) {
+      return true;
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.keys(value).some(key => this.hasForeignSecrets(value[key]));
+    }
+    return false;
+  }
+
+  /**
+   * Returns the plugins that only support a single block, keyed by <type>:<alias>
+   */
+  private async getSingularPlugins(): Promise<Map<string, string>> {
+    const singular = new Map<string, string>();
+
+    try {
+      for (const { pluginName, configSchema } of await this.pluginsService.getInstalledPluginConfigSchemas()) {
+        if (configSchema && configSchema.singular && configSchema.pluginType && configSchema.pluginAlias) {
+          singular.set(`${configSchema.pluginType}:${configSchema.pluginAlias}`, pluginName);
+        }
+      }
+    } catch (e) {
+      this.logger.error(`Failed to load plugin config schemas for config import: ${e.message}`);
+    }
+
+    return singular;
+  }
+
+  private isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,207 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Logger } from '../../core/logger/logger.service';
+import { ConfigService, HomebridgeConfig } from '../../core/config/config.service';
+import {
+  SECRET_MASK, getConfigEncryptionKey, isEncryptedValue, encryptValue, decryptValue, decryptConfigValues,
+} from '../../core/config/config.secrets';
+import { PluginsService } from '../plugins/plugins.service';
+
+interface SecretField {
+  parent: any;
+  key: string;
+  path: string;
+  current?: any;
+}
+
+@Injectable()
+export class ConfigSecretsService {
+  private encryptionKey: Buffer = getConfigEncryptionKey(this.configService.secrets.secretKey);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pluginsService: PluginsService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Change the secret key used to encrypt and decrypt config.json values, used when .uix-secrets is restored from a backup
+   * @param secretKey
+   */
+  public setSecretKey(secretKey: string) {
+    this.encryptionKey = getConfigEncryptionKey(secretKey);
+  }
+
+  /**
+   * Returns a copy of the config with the values of fields marked as "secret" in plugin config schemas replaced by a mask
+   * @param config
+   */
+  public async maskSecrets(config: HomebridgeConfig): Promise<HomebridgeConfig> {
+    const masked = JSON.parse(JSON.stringify(config));
+
+    for (const field of await this.getSecretFields(masked)) {
+      if (field.parent[field.key] !== '') {
+        field.parent[field.key] = SECRET_MASK;
+      }
+    }
+
+    return masked;
+  }
+
+  /**
+   * Replace masked secrets in a config being saved with the values from the current config
+   * Throws if a masked value no longer matches a block in the current config, rather than saving the mask
+   * @param config
+   * @param current
+   */
+  public async unmaskSecrets(config: HomebridgeConfig, current: HomebridgeConfig): Promise<HomebridgeConfig> {
+    for (const field of await this.getSecretFields(config, current)) {
+      if (field.parent[field.key] !== SECRET_MASK) {
+        continue;
+      }
+
+      if (typeof field.current !== 'string') {
+        throw new BadRequestException(`The secret value at ${field.path} could not be found in the current config, please enter it again`);
+      }
+
+      field.parent[field.key] = field.current;
+    }
+
+    return config;
+  }
+
+  /**
+   * Returns a copy of the config with all encrypted values decrypted
+   * @param config
+   */
+  public decryptSecrets(config: HomebridgeConfig): HomebridgeConfig {
+    return decryptConfigValues(this.encryptionKey, JSON.parse(JSON.stringify(config)));
+  }
+
+  /**
+   * Encrypt or decrypt the secrets in a config being saved, depending on the encryptSecrets option in the new config
+   * @param config
+   */
+  public async applySecretsEncryption(config: HomebridgeConfig): Promise<HomebridgeConfig> {
+    const ui = Array.isArray(config.platforms) ? config.platforms.find(x => x && x.platform === 'config') : undefined;
+
+    if (!ui || !ui.encryptSecrets) {
+      return decryptConfigValues(this.encryptionKey, config, (e) => {
+        this.logger.error(`Failed to decrypt a value in config.json: ${e.message}`);
+      });
+    }
+
+    for (const field of await this.getSecretFields(config)) {
+      const value = field.parent[field.key];
+      if (value !== '' && !isEncryptedValue(value)) {
+        field.parent[field.key] = encryptValue(this.encryptionKey, value);
+      } else if (isEncryptedValue(value)) {
+        // check values that are already encrypted can still be decrypted
+        try {
+          decryptValue(this.encryptionKey, value);
+        } catch (e) {
+          this.logger.error(`The value at ${field.path} was encrypted using a different .uix-secrets file and can not be decrypted`);
+        }
+      }
+    }
+
+    return config;
+  }
+
+  /**
+   * Find the string fields in each accessory and platform block that are marked as "secret" in the plugin config schema
+   * When a current config is given, each field is paired with the value from the matching block in it
+   * @param config
+   * @param current
+   */
+  private async getSecretFields(config: HomebridgeConfig, current?: HomebridgeConfig): Promise<SecretField[]> {
+    const fields: SecretField[] = [];
+    const schemas = await this.getPluginSchemas();
+
+    if (!schemas.length || typeof config !== 'object' || config === null) {
+      return fields;
+    }
+
+    for (const [section, typeKey] of [['accessories', 'accessory'], ['platforms', 'platform']] as Array<['accessories' | 'platforms', string]>) {
+      if (!Array.isArray(config[section])) {
+        continue;
+      }
+
+      const currentBlocks = (current && Array.isArray(current[section])) ? current[section] : [];
+
+      config[section].forEach((block, index) => {
+        const pluginSchema = block ? schemas.find(x => x.pluginType === typeKey && x.pluginAlias === block[typeKey]) : undefined;
+        if (pluginSchema) {
+          const currentBlock = this.findMatchingBlock(block, index, currentBlocks, typeKey);
+          this.findSecretFields(pluginSchema.schema, block, currentBlock, `${section}[${index}]`, fields);
+        }
+      });
+    }
+
+    return fields;
+  }
+
+  /**
+   * Blocks are matched by type and name, preferring the block at the same position
+   */
+  private findMatchingBlock(block: any, index: number, currentBlocks: any[], typeKey: string) {
+    const isMatch = (x, matchName: boolean) => x && x[typeKey] === block[typeKey] && (!matchName || x.name === block.name);
+
+    if (isMatch(currentBlocks[index], true)) {
+      return currentBlocks[index];
+    }
+    return currentBlocks.find(x => isMatch(x, true)) || (isMatch(currentBlocks[index], false) ? currentBlocks[index] : undefined);
+  }
+
+  private findSecretFields(schema: any, value: any, current: any, valuePath: string, fields: SecretField[]) {
+    if (!this.isObject(schema)) {
+      return;
+    }
+
+    if (this.isObject(value) && this.isObject(schema.properties)) {
+      for (const key of Object.keys(schema.properties)) {
+        const property = schema.properties[key];
+        const currentValue = this.isObject(current) ? current[key] : undefined;
+        const propertyPath = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${valuePath}.${key}` : `${valuePath}[${JSON.stringify(key)}]`;
+
+        if (property && property.secret === true && typeof value[key] === 'string') {
+          fields.push({ parent: value, key, path: propertyPath, current: currentValue });
+        } else {
+          this.findSecretFields(property, value[key], currentValue, propertyPath, fields);
+        }
+      }
+    }
+
+    if (Array.isArray(value) && this.isObject(schema.items)) {
+      value.forEach((item, index) => {
+        const currentItem = Array.isArray(current) ? current[index] : undefined;
+        if (schema.items.secret === true && typeof item === 'string') {
+          fields.push({ parent: value, key: index.toString(), path: `${valuePath}[${index}]`, current: currentItem });
+        } else {
+          this.findSecretFields(schema.items, item, currentItem, `${valuePath}[${index}]`, fields);
+        }
+      });
+    }
+  }
+
+  /**
+   * Load the config.schema.json for each installed plugin that has one
+   */
+  private async getPluginSchemas(): Promise<Array<{ pluginAlias: string, pluginType: string, schema: any }>> {
+    try {
+      return (await this.pluginsService.getInstalledPluginConfigSchemas())
+        .filter(x => x.configSchema && x.configSchema.pluginAlias && x.configSchema.pluginType && this.isObject(x.configSchema.schema))
+        .map(x => ({
+          pluginAlias: x.configSchema.pluginAlias,
+          pluginType: x.configSchema.pluginType,
+          schema: x.configSchema.schema,
+        }));
+    } catch (e) {
+      this.logger.error(`Failed to load plugin config schemas to find secret values: ${e.message}`);
+      return [];
+    }
+  }
+
+  private isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
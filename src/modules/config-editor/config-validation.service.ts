@@ -0,0 +1,376 @@
+import { Injectable } from '@nestjs/common';
+import { Logger } from '../../core/logger/logger.service';
+import { HomebridgeConfig } from '../../core/config/config.service';
+import { PluginsService } from '../plugins/plugins.service';
+
+export interface ConfigValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  errors: ConfigValidationIssue[];
+  warnings: ConfigValidationIssue[];
+}
+
+interface PluginSchemaInterface {
+  pluginName: string;
+  pluginAlias: string;
+  pluginType: 'platform' | 'accessory';
+  singular?: boolean;
+  schema: any;
+}
+
+@Injectable()
+export class ConfigValidationService {
+  // pin codes that are rejected by HAP-NodeJS
+  private readonly invalidPins = [
+    '000-00-000', '111-11-111', '222-22-222', '333-33-333', '444-44-444',
+    '555-55-555', '666-66-666', '777-77-777', '888-88-888', '999-99-999',
+    '123-45-678', '876-54-321',
+  ];
+
+  constructor(
+    private readonly pluginsService: PluginsService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Validate a config.json before it is saved
+   * Errors are problems that will stop Homebridge from starting, warnings are likely mistakes
+   * @param config
+   */
+  public async validateConfig(config: HomebridgeConfig): Promise<ConfigValidationResult> {
+    const result: ConfigValidationResult = { errors: [], warnings: [] };
+
+    if (!this.isObject(config)) {
+      this.addIssue(result.errors, '', 'config.json must be a JSON object');
+      return result;
+    }
+
+    this.validateBridge(config, result);
+    this.validatePlugins(config, result);
+
+    const accessories = this.validateBlocks(config, 'accessories', 'accessory', result);
+    const platforms = this.validateBlocks(config, 'platforms', 'platform', result);
+
+    this.validateUniqueAccessoryNames(accessories, result);
+    this.validatePorts(config, platforms, result);
+
+    await this.validatePluginSchemas(accessories.concat(platforms), result);
+
+    return result;
+  }
+
+  /**
+   * Check the bridge section, missing values are generated when the config is saved
+   */
+  private validateBridge(config: HomebridgeConfig, result: ConfigValidationResult) {
+    if (config.bridge === undefined) {
+      return;
+    }
+
+    if (!this.isObject(config.bridge)) {
+      this.addIssue(result.errors, 'bridge', 'bridge must be an object');
+      return;
+    }
+
+    const bridge = config.bridge;
+
+    if (bridge.name !== undefined && (typeof bridge.name !== 'string' || !bridge.name.trim().length)) {
+      this.addIssue(result.errors, 'bridge.name', 'bridge.name must be a non-empty string');
+    }
+
+    if (bridge.username !== undefined) {
+      if (typeof bridge.username !== 'string' || !/^([0-9A-F]{2}:){5}[0-9A-F]{2}$/i.test(bridge.username)) {
+        this.addIssue(result.errors, 'bridge.username', 'bridge.username must be a mac address in the format 0E:00:00:00:00:00');
+      } else if (bridge.username !== bridge.username.toUpperCase()) {
+        this.addIssue(result.warnings, 'bridge.username', 'bridge.username should only contain uppercase letters');
+      }
+    }
+
+    if (bridge.pin !== undefined) {
+      if (typeof bridge.pin !== 'string' || !/^\d{3}-\d{2}-\d{3}$/.test(bridge.pin)) {
+        this.addIssue(result.errors, 'bridge.pin', 'bridge.pin must be in the format 031-45-154');
+      } else if (this.invalidPins.includes(bridge.pin)) {
+        this.addIssue(result.errors, 'bridge.pin', `bridge.pin ${bridge.pin} is not allowed by HomeKit`);
+      }
+    }
+
+    if (bridge.port !== undefined && !this.isPort(bridge.port)) {
+      this.addIssue(result.errors, 'bridge.port', 'bridge.port must be a whole number between 1 and 65535');
+    }
+  }
+
+  /**
+   * Check the optional list of plugins to load
+   */
+  private validatePlugins(config: HomebridgeConfig, result: ConfigValidationResult) {
+    if (config.plugins === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(config.plugins) || (config.plugins as any[]).some(x => typeof x !== 'string')) {
+      this.addIssue(result.warnings, 'plugins', 'plugins must be an array of plugin names, it will be removed when the config is saved');
+    }
+  }
+
+  /**
+   * Check the shape of each accessory or platform block
+   * Returns the blocks that have a valid type key so they can be checked further
+   */
+  private validateBlocks(
+    config: HomebridgeConfig,
+    section: 'accessories' | 'platforms',
+    typeKey: 'accessory' | 'platform',
+    result: ConfigValidationResult,
+  ): Array<{ path: string, type: 'accessory' | 'platform', block: any }> {
+    const blocks = [];
+
+    if (config[section] === undefined) {
+      return blocks;
+    }
+
+    if (!Array.isArray(config[section])) {
+      this.addIssue(result.errors, section, `${section} must be an array`);
+      return blocks;
+    }
+
+    config[section].forEach((block, index) => {
+      const blockPath = `${section}[${index}]`;
+
+      if (!this.isObject(block)) {
+        this.addIssue(result.errors, blockPath, `${blockPath} must be an object`);
+        return;
+      }
+
+      if (typeof block[typeKey] !== 'string' || !block[typeKey].trim().length) {
+        this.addIssue(result.errors, `${blockPath}.${typeKey}`, `${blockPath} is missing the "${typeKey}" key`);
+        return;
+      }
+
+      // accessories cannot be created without a name
+      if (typeKey === 'accessory' && (typeof block.name !== 'string' || !block.name.trim().length)) {
+        this.addIssue(result.errors, `${blockPath}.name`, `${blockPath} (${block.accessory}) is missing the "name" key`);
+      }
+
+      blocks.push({ path: blockPath, type: typeKey, block });
+    });
+
+    return blocks;
+  }
+
+  /**
+   * Accessories are identified by their type and name, two accessories with the same type and name stop Homebridge starting
+   */
+  private validateUniqueAccessoryNames(accessories: Array<{ path: string, block: any }>, result: ConfigValidationResult) {
+    const seen = new Map<string, string>();
+
+    for (const accessory of accessories) {
+      const key = `${accessory.block.accessory}:${accessory.block.name}`;
+
+      if (seen.has(key)) {
+        this.addIssue(result.errors, `${accessory.path}.name`,
+          `${accessory.path} has the same accessory type and name as ${seen.get(key)}, accessory names must be unique`);
+      } else {
+        seen.set(key, accessory.path);
+      }
+    }
+  }
+
+  /**
+   * Make sure the bridge port is not used by this UI or another platform
+   */
+  private validatePorts(config: HomebridgeConfig, platforms: Array<{ path: string, block: any }>, result: ConfigValidationResult) {
+    const ports = new Map<number, string>();
+
+    if (this.isObject(config.bridge) && this.isPort(config.bridge.port)) {
+      ports.set(config.bridge.port, 'bridge.port');
+    }
+
+    for (const platform of platforms) {
+      const port = platform.block.port;
+
+      if (port === undefined || !this.isPort(port)) {
+        continue;
+      }
+
+      if (ports.has(port)) {
+        const isConfigUi = platform.block.platform === 'config';
+        this.addIssue(isConfigUi || ports.get(port) === 'bridge.port' ? result.errors : result.warnings, `${platform.path}.port`,
+          `${platform.path}.port (${port}) is already used by ${ports.get(port)}`);
+      } else {
+        ports.set(port, `${platform.path}.port`);
+      }
+    }
+  }
+
+  /**
+   * Validate each block against the config.schema.json of the plugin that provides it, if it has one
+   */
+  private async validatePluginSchemas(blocks: Array<{ path: string, type: 'accessory' | 'platform', block: any }>, result: ConfigValidationResult) {
+    const schemas = await this.getPluginSchemas();
+    const counts = new Map<PluginSchemaInterface, number>();
+
+    for (const { path, type, block } of blocks) {
+      const pluginSchema = schemas.find(x => x.pluginType === type && x.pluginAlias === block[type]);
+
+      if (!pluginSchema) {
+        continue;
+      }
+
+      counts.set(pluginSchema, (counts.get(pluginSchema) || 0) + 1);
+      if (pluginSchema.singular && counts.get(pluginSchema) === 2) {
+        this.addIssue(result.warnings, path, `${pluginSchema.pluginName} only supports a single ${type} block`);
+      }
+
+      this.validateSchema(pluginSchema.schema, block, path, pluginSchema.pluginName, result.warnings);
+    }
+  }
+
+  /**
+   * Load the config.schema.json for each installed plugin that has one
+   */
+  private async getPluginSchemas(): Promise<PluginSchemaInterface[]> {
+    try {
+      return (await this.pluginsService.getInstalledPluginConfigSchemas())
+        .filter(x => x.configSchema && x.configSchema.pluginAlias && x.configSchema.pluginType && this.isObject(x.configSchema.schema))
+        .map(x => ({
+          pluginName: x.pluginName,
+          pluginAlias: x.configSchema.pluginAlias,
+          pluginType: x.configSchema.pluginType,
+          singular: x.configSchema.singular,
+          schema: x.configSchema.schema,
+        }));
+    } catch (e) {
+      this.logger.error(`Failed to load plugin config schemas for config validation: ${e.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Validate a value against a plugin config schema
+   * This supports the subset of JSON Schema used by plugin config.schema.json files, including
+   * "required": true on individual properties
+   */
+  private validateSchema(schema: any, value: any, path: string, pluginName: string, issues: ConfigValidationIssue[]) {
+    if (!this.isObject(schema) || value === undefined) {
+      return;
+    }
+
+    const add = (message: string) => this.addIssue(issues, path, `${pluginName}: ${path} ${message}`);
+
+    if (schema.type && !this.matchesType(schema.type, value)) {
+      add(`must be of type ${[].concat(schema.type).join(' or ')}`);
+      return;
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some(x => JSON.stringify(x) === JSON.stringify(value))) {
+      add(`must be one of ${schema.enum.map(x => JSON.stringify(x)).join(', ')}`);
+    }
+
+    const options = schema.oneOf || schema.anyOf;
+    if (Array.isArray(options) && options.length) {
+      const matches = options.some((option) => {
+        const optionIssues: ConfigValidationIssue[] = [];
+        this.validateSchema(option, value, path, pluginName, optionIssues);
+        return !optionIssues.length;
+      });
+      if (!matches) {
+        const values = options.filter(x => x && Array.isArray(x.enum)).map(x => x.enum.map(y => JSON.stringify(y)).join(', '));
+        add(values.length === options.length ? `must be one of ${values.join(', ')}` : 'does not match any of the allowed options');
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        add(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        add(`must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern) {
+        try {
+          if (!new RegExp(schema.pattern).test(value)) {
+            add(`does not match the pattern ${schema.pattern}`);
+          }
+        } catch (e) {
+          // the plugin's schema has an invalid pattern
+        }
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        add(`must be ${schema.minimum} or more`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        add(`must be ${schema.maximum} or less`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        add(`must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        add(`must have at most ${schema.maxItems} items`);
+      }
+      if (this.isObject(schema.items)) {
+        value.forEach((item, index) => this.validateSchema(schema.items, item, `${path}[${index}]`, pluginName, issues));
+      }
+    }
+
+    if (this.isObject(value) && this.isObject(schema.properties)) {
+      const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+
+      for (const key of Object.keys(schema.properties)) {
+        const property = schema.properties[key];
+        const propertyPath = this.joinPath(path, key);
+
+        if (value[key] === undefined || value[key] === null || value[key] === '') {
+          if (required.includes(key) || (property && property.required === true)) {
+            this.addIssue(issues, propertyPath, `${pluginName}: ${propertyPath} is required`);
+          }
+          continue;
+        }
+
+        this.validateSchema(property, value[key], propertyPath, pluginName, issues);
+      }
+    }
+  }
+
+  private matchesType(type: string | string[], value: any): boolean {
+    return [].concat(type).some((t) => {
+      switch (t) {
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && !isNaN(value);
+        case 'integer': return Number.isInteger(value);
+        case 'boolean': return typeof value === 'boolean';
+        case 'object': return this.isObject(value);
+        case 'array': return Array.isArray(value);
+        case 'null': return value === null;
+        default: return true;
+      }
+    });
+  }
+
+  private isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isPort(value: any): boolean {
+    return Number.isInteger(value) && value > 0 && value < 65536;
+  }
+
+  /**
+   * Keys that are not valid identifiers are written in bracket notation, eg. platforms[0]["my-key"]
+   */
+  private joinPath(path: string, key: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+  }
+
+  private addIssue(issues: ConfigValidationIssue[], path: string, message: string) {
+    issues.push({ path, message });
+  }
+}
@@ -1,9 +1,12 @@
 import { SubscribeMessage, WebSocketGateway } from '@nestjs/websockets';
-import { WsGuard } from '../../core/auth/guards/ws.guard';
+import { WsPermissionsGuard } from '../../core/auth/guards/ws-permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 import { UseGuards } from '@nestjs/common';
 import { LogService } from './log.service';
 
-@UseGuards(WsGuard)
+@UseGuards(WsPermissionsGuard)
+@Permissions(Permission.LOGS_VIEW)
 @WebSocketGateway({ namespace: 'log' })
 export class LogGateway {
   constructor(
@@ -3,11 +3,13 @@ import { LogService } from './log.service';
 import { LogGateway } from './log.gateway';
 import { ConfigModule } from '../../core/config/config.module';
 import { LoggerModule } from '../../core/logger/logger.module';
+import { AuthModule } from '../../core/auth/auth.module';
 
 @Module({
   imports: [
     ConfigModule,
     LoggerModule,
+    AuthModule,
   ],
   providers: [
     LogService,
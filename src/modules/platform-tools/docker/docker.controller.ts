@@ -1,42 +1,56 @@
-import { Controller, UseGuards, Get, Put, Body, Res } from '@nestjs/common';
+import { Controller, UseGuards, Get, Put, Body, Res, Req } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { AdminGuard } from '../../../core/auth/guards/admin.guard';
+import { PermissionsGuard } from '../../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../../core/auth/permissions';
 import { DockerService } from './docker.service';
+import { AuditService } from '../../../core/audit/audit.service';
 
 @UseGuards(AuthGuard())
 @Controller('platform-tools/docker')
 export class DockerController {
   constructor(
     private readonly dockerService: DockerService,
+    private readonly auditService: AuditService,
   ) { }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLATFORM_MANAGE)
   @Get('startup-script')
   getStartupScript() {
     return this.dockerService.getStartupScript();
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLATFORM_MANAGE)
   @Put('startup-script')
-  updateStartupScript(@Body() body) {
-    return this.dockerService.updateStartupScript(body.script);
+  async updateStartupScript(@Req() req, @Body() body) {
+    const result = await this.dockerService.updateStartupScript(body.script);
+    await this.auditService.logRequest(req, 'docker.startup-script.update', 'startup.sh');
+    return result;
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLATFORM_MANAGE)
   @Put('restart-container')
-  restartDockerContainer(@Res() res) {
+  async restartDockerContainer(@Req() req, @Res() res) {
+    await this.auditService.logRequest(req, 'docker.restart', 'container');
     return this.dockerService.restartDockerContainer(res);
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLATFORM_MANAGE)
   @Get('env')
   getDockerEnv() {
     return this.dockerService.getDockerEnv();
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLATFORM_MANAGE)
   @Put('env')
-  updateDockerEnv(@Body() body) {
-    return this.dockerService.updateDockerEnv(body);
+  async updateDockerEnv(@Req() req, @Body() body) {
+    const result = await this.dockerService.updateDockerEnv(body);
+    await this.auditService.logRequest(req, 'docker.env.update', '.docker.env', { variables: Object.keys(body || {}) });
+    return result;
   }
 }
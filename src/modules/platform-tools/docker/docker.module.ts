@@ -4,12 +4,14 @@ import { ConfigModule } from '../../../core/config/config.module';
 import { LoggerModule } from '../../../core/logger/logger.module';
 import { DockerService } from './docker.service';
 import { DockerController } from './docker.controller';
+import { AuditModule } from '../../../core/audit/audit.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     ConfigModule,
     LoggerModule,
+    AuditModule,
   ],
   providers: [
     DockerService,
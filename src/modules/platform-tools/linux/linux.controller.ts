@@ -1,24 +1,32 @@
-import { Controller, UseGuards, Res, Put } from '@nestjs/common';
+import { Controller, UseGuards, Res, Put, Req } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { LinuxService } from './linux.service';
-import { AdminGuard } from '../../../core/auth/guards/admin.guard';
+import { AuditService } from '../../../core/audit/audit.service';
+import { PermissionsGuard } from '../../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../../core/auth/permissions';
 
 @UseGuards(AuthGuard())
 @Controller('platform-tools/linux')
 export class LinuxController {
   constructor(
     private readonly linuxServer: LinuxService,
+    private readonly auditService: AuditService,
   ) { }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLATFORM_MANAGE)
   @Put('restart-host')
-  restartHost(@Res() res) {
+  async restartHost(@Req() req, @Res() res) {
+    await this.auditService.logRequest(req, 'host.restart', 'linux');
     return this.linuxServer.restartHost(res);
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLATFORM_MANAGE)
   @Put('shutdown-host')
-  shutdownHost(@Res() res) {
+  async shutdownHost(@Req() req, @Res() res) {
+    await this.auditService.logRequest(req, 'host.shutdown', 'linux');
     return this.linuxServer.shutdownHost(res);
   }
 }
@@ -1,9 +1,12 @@
 import { SubscribeMessage, WebSocketGateway } from '@nestjs/websockets';
 import { UseGuards } from '@nestjs/common';
-import { WsAdminGuard } from '../../../core/auth/guards/ws-admin-guard';
+import { WsPermissionsGuard } from '../../../core/auth/guards/ws-permissions.guard';
+import { Permissions } from '../../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../../core/auth/permissions';
 import { TerminalService } from './terminal.service';
 
-@UseGuards(WsAdminGuard)
+@UseGuards(WsPermissionsGuard)
+@Permissions(Permission.TERMINAL_ACCESS)
 @WebSocketGateway({ namespace: 'platform-tools/terminal' })
 export class TerminalGateway {
   constructor(
@@ -4,12 +4,16 @@ import { TerminalService } from './terminal.service';
 import { TerminalGateway } from './terminal.gateway';
 import { ConfigModule } from '../../../core/config/config.module';
 import { LoggerModule } from '../../../core/logger/logger.module';
+import { AuthModule } from '../../../core/auth/auth.module';
+import { AuditModule } from '../../../core/audit/audit.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     ConfigModule,
     LoggerModule,
+    AuditModule,
+    AuthModule,
   ],
   providers: [
     TerminalService,
@@ -4,12 +4,14 @@ import * as pty from 'node-pty-prebuilt-multiarch';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '../../../core/config/config.service';
 import { Logger } from '../../../core/logger/logger.service';
+import { AuditService } from '../../../core/audit/audit.service';
 
 @Injectable()
 export class TerminalService {
   constructor(
     private configService: ConfigService,
     private logger: Logger,
+    private auditService: AuditService,
   ) { }
 
   /**
@@ -25,6 +27,7 @@ export class TerminalService {
     }
 
     this.logger.log('Starting terminal session');
+    await this.auditService.logClient(client, 'terminal.start', 'shell');
 
     // check if we should use bash or sh
     const shell = await fs.pathExists('/bin/bash') ? '/bin/bash' : '/bin/sh';
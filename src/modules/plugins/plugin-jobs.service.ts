@@ -0,0 +1,371 @@
+import * as fs from 'fs-extra';
+import * as crypto from 'crypto';
+import * as color from 'bash-color';
+import { Injectable } from '@nestjs/common';
+import { Logger } from '../../core/logger/logger.service';
+import { ConfigService } from '../../core/config/config.service';
+import { PluginsService, HomebridgePlugin } from './plugins.service';
+
+export type PluginJobAction = 'install' | 'install-url' | 'install-upload' | 'uninstall' | 'update' | 'update-all' | 'homebridge-update';
+
+export interface PluginJob {
+  id: string;
+  action: PluginJobAction;
+  target: string;
+  version?: string;
+  username?: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  created: string;
+  started?: string;
+  finished?: string;
+  error?: string;
+  // the version of the target plugin that was installed before the job, only set once the job has succeeded
+  previousVersion?: string;
+  // the outcome of each plugin in an update-all job
+  results?: Array<{ name: string, installedVersion: string, latestVersion: string, succeeded: boolean, skipped?: boolean, error?: string }>;
+}
+
+type PluginJobTask = (client, job: PluginJob) => Promise<any>;
+
+interface PluginJobState {
+  job: PluginJob;
+  output: string;
+  clients: Set<any>;
+  task?: PluginJobTask;
+  finished: Promise<void>;
+  onFinished?: () => void;
+}
+
+@Injectable()
+export class PluginJobsService {
+  // the number of finished jobs kept in the job history
+  private readonly historyLength = 50;
+
+  // the jobs that change the version of the target plugin, the version they replace is kept as the rollback target
+  private readonly versionChangeActions: PluginJobAction[] = ['install', 'install-upload', 'update'];
+
+  // the amount of output kept for each job, older output is dropped first
+  private readonly outputLength = 100000;
+
+  // job cache, loaded from disk on first use
+  private jobs: PluginJobState[];
+
+  // jobs are run one at a time, npm can corrupt node_modules when two commands run in the same directory
+  private jobQueue: Promise<void> = Promise.resolve();
+
+  // writes are queued so the job history is never written twice at once
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  // the listeners that detach each client from its job when it disconnects
+  private clientListeners = new Map<any, () => void>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pluginsService: PluginsService,
+    private readonly logger: Logger,
+  ) { }
+
+  /**
+   * Add a job to the queue, the client that requested it is attached to the job's output
+   * The task receives the job, and a client that sends output to every client attached to the job
+   * @param client
+   * @param action
+   * @param target
+   * @param version
+   * @param task
+   */
+  public async queueJob(client, action: PluginJobAction, target: string, version: string, task: PluginJobTask): Promise<PluginJob> {
+    const jobs = await this.getJobs();
+
+    const state: PluginJobState = {
+      job: {
+        id: crypto.randomBytes(8).toString('hex'),
+        action,
+        target,
+        version,
+        username: client.user ? client.user.username : undefined,
+        status: 'queued',
+        created: new Date().toISOString(),
+      },
+      output: '',
+      clients: new Set(),
+      task,
+      finished: null,
+    };
+    state.finished = new Promise(resolve => state.onFinished = resolve);
+
+    const waiting = jobs.filter(x => x.job.status === 'queued' || x.job.status === 'running').length;
+
+    jobs.push(state);
+    this.attach(client, state);
+    client.emit('job', state.job);
+
+    if (waiting) {
+      this.write(state, color.yellow(`Waiting for ${waiting} plugin job(s) to finish...\n\r\n\r`));
+    }
+
+    this.jobQueue = this.jobQueue.then(() => this.runJob(state));
+    await this.saveJobs();
+
+    return state.job;
+  }
+
+  /**
+   * Queue a job that updates every plugin that has an update available, one at a time
+   * Plugins where the latest version is not compatible with this system are skipped
+   * This plugin is updated last, as the update may require a restart
+   * @param client
+   */
+  public async queueUpdateAll(client): Promise<PluginJob> {
+    return this.queueJob(client, 'update-all', 'all', undefined, async (output, job) => {
+      const plugins = (await this.pluginsService.getOutOfDatePlugins())
+        .sort((a, b) => (a.name === this.configService.name ? 1 : 0) - (b.name === this.configService.name ? 1 : 0));
+      const results: PluginJob['results'] = job.results = [];
+
+      if (!plugins.length) {
+        output.emit('stdout', color.green(`All plugins are up to date.\n\r`));
+        return;
+      }
+
+      for (const [index, plugin] of plugins.entries()) {
+        output.emit('stdout', color.cyan(`\n\rUpdating ${plugin.name} (${index + 1} of ${plugins.length})\n\r\n\r`));
+
+        const { errors } = await this.pluginsService.checkPluginCompatibility(plugin.name, plugin.latestVersion)
+          .catch(() => ({ errors: [] as string[] }));
+        if (errors.length) {
+          output.emit('stdout', color.yellow(`Skipped ${plugin.name} v${plugin.latestVersion}:\n\r${errors.join('\n\r')}\n\r`));
+          results.push({
+            name: plugin.name,
+            installedVersion: plugin.installedVersion,
+            latestVersion: plugin.latestVersion,
+            succeeded: false,
+            skipped: true,
+            error: errors.join(', '),
+          });
+          continue;
+        }
+
+        try {
+          await this.pluginsService.updatePlugin(plugin.name, output);
+          results.push({ name: plugin.name, installedVersion: plugin.installedVersion, latestVersion: plugin.latestVersion, succeeded: true });
+        } catch (e) {
+          output.emit('stdout', color.red(`Failed to update ${plugin.name}: ${e}\n\r`));
+          results.push({
+            name: plugin.name,
+            installedVersion: plugin.installedVersion,
+            latestVersion: plugin.latestVersion,
+            succeeded: false,
+            error: this.getErrorMessage(e),
+          });
+        }
+      }
+
+      const failed = results.filter(x => !x.succeeded && !x.skipped).map(x => x.name);
+      if (failed.length) {
+        throw new Error(`Failed to update ${failed.join(', ')}`);
+      }
+
+      output.emit('stdout', color.green(`\n\rUpdated ${results.filter(x => x.succeeded).length} plugin(s).\n\r`));
+    });
+  }
+
+  /**
+   * Returns the job history, newest first, without the job output
+   */
+  public async getJobHistory(): Promise<PluginJob[]> {
+    return (await this.getJobs()).map(x => x.job).reverse();
+  }
+
+  /**
+   * Set the previous version of each plugin from the job history, plugins can be rolled back to this version
+   * The most recent successful job that changed each plugin is used, a plugin that was uninstalled has no previous version
+   * @param plugins
+   */
+  public async addPreviousVersions(plugins: HomebridgePlugin[]): Promise<HomebridgePlugin[]> {
+    const previousVersions = new Map<string, string>();
+
+    for (const { job } of (await this.getJobs()).slice().reverse()) {
+      if (job.status !== 'succeeded') {
+        continue;
+      }
+
+      const changes = job.action === 'update-all' ?
+        (job.results || []).filter(x => x.succeeded).map(x => ({ name: x.name, previousVersion: x.installedVersion })) :
+        [{ name: job.target, previousVersion: job.action === 'uninstall' ? null : job.previousVersion }];
+
+      for (const change of changes) {
+        if (!previousVersions.has(change.name) && change.previousVersion !== undefined) {
+          previousVersions.set(change.name, change.previousVersion);
+        }
+      }
+    }
+
+    for (const plugin of plugins) {
+      const previousVersion = previousVersions.get(plugin.name);
+      if (previousVersion && previousVersion !== plugin.installedVersion) {
+        plugin.previousVersion = previousVersion;
+      }
+    }
+
+    return plugins;
+  }
+
+  /**
+   * Attach a client to a job, then wait for the job to finish
+   * Resolves with the job once it succeeds, or rejects with the error if it fails
+   * @param client
+   * @param jobId
+   * @param replay send the output the job has produced so far to the client
+   */
+  public async waitForJob(client, jobId: string, replay = false): Promise<PluginJob> {
+    const state = (await this.getJobs()).find(x => x.job.id === jobId);
+
+    if (!state) {
+      throw new Error(`Plugin job ${jobId} could not be found`);
+    }
+
+    if (replay) {
+      client.emit('job', state.job);
+      client.emit('stdout', state.output);
+    }
+
+    if (state.job.status === 'queued' || state.job.status === 'running') {
+      this.attach(client, state);
+      await state.finished;
+    }
+
+    if (state.job.status === 'failed') {
+      throw state.job.error;
+    }
+
+    return state.job;
+  }
+
+  private async runJob(state: PluginJobState) {
+    state.job.status = 'running';
+    state.job.started = new Date().toISOString();
+    await this.saveJobs();
+
+    const output = {
+      emit: (event: string, data: string) => {
+        if (event === 'stdout') {
+          this.write(state, data);
+        }
+      },
+    };
+
+    const previousVersion = this.versionChangeActions.includes(state.job.action) ?
+      await this.pluginsService.getInstalledPluginVersion(state.job.target).catch(() => undefined) : undefined;
+
+    try {
+      await state.task(output, state.job);
+      state.job.status = 'succeeded';
+
+      // reinstalling the same version leaves the rollback target from an earlier job in place
+      if (previousVersion && previousVersion !== await this.pluginsService.getInstalledPluginVersion(state.job.target).catch(() => undefined)) {
+        state.job.previousVersion = previousVersion;
+      }
+    } catch (e) {
+      this.logger.error(`Plugin job ${state.job.action} ${state.job.target} failed: ${this.getErrorMessage(e)}`);
+      this.write(state, '\n\r' + color.red(e.toString()) + '\n\r');
+      state.job.status = 'failed';
+      state.job.error = this.getErrorMessage(e);
+    }
+
+    state.job.finished = new Date().toISOString();
+    state.task = null;
+
+    for (const client of state.clients) {
+      this.detach(client);
+    }
+
+    state.onFinished();
+    await this.saveJobs();
+  }
+
+  /**
+   * Send output to the clients attached to a job, and keep it for clients that attach later
+   */
+  private write(state: PluginJobState, data: string) {
+    state.output = (state.output + data).slice(-this.outputLength);
+
+    for (const client of state.clients) {
+      client.emit('stdout', data);
+    }
+  }
+
+  /**
+   * A client is only attached to one job at a time, so the output from different jobs is never mixed
+   */
+  private attach(client, state: PluginJobState) {
+    this.detach(client);
+    state.clients.add(client);
+
+    const listener = () => this.detach(client);
+    this.clientListeners.set(client, listener);
+    client.on('end', listener);
+    client.on('disconnect', listener);
+  }
+
+  private detach(client) {
+    if (!this.clientListeners.has(client)) {
+      return;
+    }
+
+    for (const state of this.jobs) {
+      state.clients.delete(client);
+    }
+
+    client.removeListener('end', this.clientListeners.get(client));
+    client.removeListener('disconnect', this.clientListeners.get(client));
+    this.clientListeners.delete(client);
+  }
+
+  /**
+   * Returns all the jobs, oldest first
+   * Jobs that were still queued or running when the job history was saved were interrupted by a restart
+   */
+  private async getJobs(): Promise<PluginJobState[]> {
+    if (!this.jobs) {
+      let saved: Array<PluginJob & { output: string }>;
+      try {
+        saved = await fs.readJson(this.configService.pluginJobsPath);
+      } catch (e) {
+        saved = [];
+      }
+
+      this.jobs = (Array.isArray(saved) ? saved : []).map(({ output, ...job }) => {
+        if (job.status === 'queued' || job.status === 'running') {
+          job.status = 'failed';
+          job.error = 'The job was interrupted by a restart';
+        }
+        return { job, output: output || '', clients: new Set(), finished: Promise.resolve() };
+      });
+    }
+    return this.jobs;
+  }
+
+  /**
+   * Saves the job history, only the most recent finished jobs are kept
+   */
+  private async saveJobs() {
+    const finished = this.jobs.filter(x => x.job.status === 'succeeded' || x.job.status === 'failed');
+    const expired = finished.slice(0, Math.max(finished.length - this.historyLength, 0));
+    this.jobs = this.jobs.filter(x => !expired.includes(x));
+
+    const save = this.saveQueue.then(() => {
+      return fs.writeJson(this.configService.pluginJobsPath, this.jobs.map(x => ({ ...x.job, output: x.output })));
+    });
+    this.saveQueue = save.catch((e) => {
+      this.logger.error(`Failed to save the plugin job history: ${e.message}`);
+    });
+    return this.saveQueue;
+  }
+
+  /**
+   * npm commands fail with a string, other errors are Error objects
+   */
+  private getErrorMessage(e): string {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
@@ -1,7 +1,10 @@
-import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Param, Body, Query, UseGuards } from '@nestjs/common';
 import { PluginsService } from './plugins.service';
+import { PluginJobsService } from './plugin-jobs.service';
 import { AuthGuard } from '@nestjs/passport';
-import { AdminGuard } from '../../core/auth/guards/admin.guard';
+import { PermissionsGuard } from '../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 
 @UseGuards(AuthGuard())
 @Controller('plugins')
@@ -9,33 +12,88 @@ export class PluginsController {
 
   constructor(
     private pluginsService: PluginsService,
+    private pluginJobsService: PluginJobsService,
   ) { }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
   @Get()
-  pluginsGet() {
-    return this.pluginsService.getInstalledPlugins();
+  async pluginsGet() {
+    return this.pluginJobsService.addPreviousVersions(await this.pluginsService.getInstalledPlugins());
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
   @Get('search/:query')
   pluginsSearch(@Param() param) {
     return this.pluginsService.searchNpmRegistry(param.query);
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
+  @Get('jobs')
+  getPluginJobs() {
+    return this.pluginJobsService.getJobHistory();
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
+  @Post('upload')
+  uploadPlugin(@Body() body) {
+    return this.pluginsService.uploadPlugin(body);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
+  @Delete('upload/:uploadId')
+  removeUploadedPlugin(@Param() param) {
+    return this.pluginsService.removeUploadedPlugin(param.uploadId);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
+  @Get('upload/:uploadId/compatibility')
+  checkUploadedPluginCompatibility(@Param() param) {
+    return this.pluginsService.checkUploadedPluginCompatibility(param.uploadId);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
   @Get('config-schema/:pluginName')
   getPluginConfigSchema(@Param() param) {
     return this.pluginsService.getPluginConfigSchema(param.pluginName);
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
+  @Get('versions/:pluginName')
+  getPluginVersions(@Param() param) {
+    return this.pluginsService.getPluginVersions(param.pluginName);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
+  @Get('compatibility/:pluginName')
+  checkPluginCompatibility(@Param() param, @Query('version') version: string) {
+    return this.pluginsService.checkPluginCompatibility(param.pluginName, version || undefined);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
+  @Get('url-compatibility')
+  checkPluginUrlCompatibility(@Query('url') url: string) {
+    return this.pluginsService.checkPluginUrlCompatibility(url);
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
   @Get('changelog/:pluginName')
   getPluginChangeLog(@Param() param) {
     return this.pluginsService.getPluginChangeLog(param.pluginName);
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.PLUGINS_MANAGE)
   @Get('release/:pluginName')
   getPluginRelease(@Param() param) {
     return this.pluginsService.getPluginRelease(param.pluginName);
@@ -0,0 +1,172 @@
+// npm is never run in these tests, the native module is not built for the node version the tests run on
+jest.mock('node-pty-prebuilt-multiarch', () => ({ spawn: jest.fn() }));
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as tar from 'tar';
+import { Test } from '@nestjs/testing';
+import { WsException } from '@nestjs/websockets';
+import { ConfigModule } from '../../core/config/config.module';
+import { LoggerModule } from '../../core/logger/logger.module';
+import { AuditModule } from '../../core/audit/audit.module';
+import { AuthModule } from '../../core/auth/auth.module';
+import { PluginsService, HomebridgePluginCompatibility } from './plugins.service';
+import { PluginJobsService } from './plugin-jobs.service';
+import { PluginsGateway } from './plugins.gateway';
+
+describe('PluginsGateway', () => {
+  const storagePath = path.resolve(os.tmpdir(), `uix-plugins-gateway-test-${process.pid}`);
+
+  const incompatible: HomebridgePluginCompatibility = {
+    name: 'homebridge-example',
+    version: '2.0.0',
+    errors: ['Requires Node.js >=99.0.0'],
+    warnings: [],
+  };
+
+  let pluginsGateway: PluginsGateway;
+  let pluginsService: PluginsService;
+  let pluginJobsService: PluginJobsService;
+  let client;
+
+  // stands in for npm, the tests only check whether it would have been run
+  let npm: { [method: string]: jest.SpyInstance };
+
+  const lastJob = async () => (await pluginJobsService.getJobHistory())[0];
+
+  beforeAll(async () => {
+    await fs.emptyDir(storagePath);
+    await fs.writeJson(path.resolve(storagePath, 'config.json'), {
+      bridge: { name: 'Homebridge', username: '0E:00:00:00:00:00', port: 51826, pin: '031-45-154' },
+      platforms: [{ platform: 'config', name: 'Config', port: 8080 }],
+    });
+
+    // an admin already exists, so the default user is not written while the tests are running
+    await fs.writeJson(path.resolve(storagePath, 'auth.json'), [{ id: 1, username: 'admin', name: 'Admin', admin: true }]);
+
+    process.env.UIX_BASE_PATH = path.resolve(__dirname, '../../..');
+    process.env.UIX_CONFIG_PATH = path.resolve(storagePath, 'config.json');
+    process.env.UIX_STORAGE_PATH = storagePath;
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => null);
+    jest.spyOn(console, 'warn').mockImplementation(() => null);
+    jest.spyOn(console, 'error').mockImplementation(() => null);
+
+    await fs.remove(path.resolve(storagePath, '.uix-plugin-jobs.json'));
+
+    const module = await Test.createTestingModule({
+      imports: [ConfigModule, LoggerModule, AuditModule, AuthModule],
+      providers: [PluginsService, PluginJobsService, PluginsGateway],
+    }).compile();
+
+    pluginsGateway = module.get(PluginsGateway);
+    pluginsService = module.get(PluginsService);
+    pluginJobsService = module.get(PluginJobsService);
+
+    client = { user: { username: 'admin' }, emit: jest.fn(), on: jest.fn(), removeListener: jest.fn() };
+
+    jest.spyOn(pluginsService, 'getInstalledPluginVersion').mockResolvedValue(undefined);
+    npm = {
+      installPlugin: jest.spyOn(pluginsService, 'installPlugin').mockResolvedValue(true),
+      updatePlugin: jest.spyOn(pluginsService, 'updatePlugin').mockResolvedValue(true),
+      installPluginFromUrl: jest.spyOn(pluginsService, 'installPluginFromUrl').mockResolvedValue(true),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await fs.remove(storagePath);
+  });
+
+  it('installs a compatible plugin', async () => {
+    jest.spyOn(pluginsService, 'checkPluginCompatibility').mockResolvedValue({ ...incompatible, errors: [] });
+
+    const result = await pluginsGateway.installPlugin(client, { name: 'homebridge-example', version: '2.0.0' });
+
+    expect(result).toMatchObject({ status: 'succeeded' });
+    expect(pluginsService.checkPluginCompatibility).toHaveBeenCalledWith('homebridge-example', '2.0.0');
+    expect(npm.installPlugin).toHaveBeenCalled();
+  });
+
+  it('does not install an incompatible plugin', async () => {
+    jest.spyOn(pluginsService, 'checkPluginCompatibility').mockResolvedValue(incompatible);
+
+    const result = await pluginsGateway.installPlugin(client, 'homebridge-example');
+
+    expect(result).toBeInstanceOf(WsException);
+    expect((result as WsException).getError()).toContain('not compatible with this system: Requires Node.js >=99.0.0');
+    expect(npm.installPlugin).not.toHaveBeenCalled();
+    expect(await lastJob()).toMatchObject({ action: 'install', status: 'failed' });
+  });
+
+  it('installs an incompatible plugin when the compatibility check is ignored', async () => {
+    jest.spyOn(pluginsService, 'checkPluginCompatibility').mockResolvedValue(incompatible);
+
+    const result = await pluginsGateway.installPlugin(client, { name: 'homebridge-example', ignoreCompatibility: true });
+
+    expect(result).toMatchObject({ status: 'succeeded' });
+    expect(npm.installPlugin).toHaveBeenCalled();
+  });
+
+  it('does not install a plugin when the compatibility check fails, unless it is ignored', async () => {
+    jest.spyOn(pluginsService, 'checkPluginCompatibility').mockRejectedValue(new Error('ETIMEDOUT'));
+
+    const result = await pluginsGateway.installPlugin(client, 'homebridge-example');
+    expect((result as WsException).getError()).toEqual('The compatibility check failed: ETIMEDOUT');
+    expect(npm.installPlugin).not.toHaveBeenCalled();
+
+    await pluginsGateway.installPlugin(client, { name: 'homebridge-example', ignoreCompatibility: true });
+    expect(npm.installPlugin).toHaveBeenCalled();
+  });
+
+  it('does not update to an incompatible version', async () => {
+    jest.spyOn(pluginsService, 'checkPluginCompatibility').mockResolvedValue(incompatible);
+
+    const result = await pluginsGateway.updatePlugin(client, 'homebridge-example');
+
+    expect(result).toBeInstanceOf(WsException);
+    expect(pluginsService.checkPluginCompatibility).toHaveBeenCalledWith('homebridge-example', undefined);
+    expect(npm.updatePlugin).not.toHaveBeenCalled();
+  });
+
+  it('does not install an incompatible plugin from a url', async () => {
+    jest.spyOn(pluginsService, 'checkPluginUrlCompatibility').mockResolvedValue(incompatible);
+
+    const url = 'git+https://github.com/user/homebridge-example.git';
+    const result = await pluginsGateway.installPluginFromUrl(client, url);
+
+    expect(result).toBeInstanceOf(WsException);
+    expect(pluginsService.checkPluginUrlCompatibility).toHaveBeenCalledWith(url, expect.anything());
+    expect(npm.installPluginFromUrl).not.toHaveBeenCalled();
+
+    await pluginsGateway.installPluginFromUrl(client, { url, ignoreCompatibility: true });
+    expect(npm.installPluginFromUrl).toHaveBeenCalledWith(url, expect.anything());
+  });
+
+  it('does not install an incompatible uploaded package, and removes it', async () => {
+    const directory = await fs.mkdtemp(path.join(storagePath, 'package-'));
+    await fs.outputJson(path.resolve(directory, 'package', 'package.json'), {
+      name: 'homebridge-example',
+      version: '2.0.0',
+      keywords: ['homebridge-plugin'],
+      engines: { node: '>=99.0.0' },
+    });
+    await tar.c({ gzip: true, cwd: directory, file: path.resolve(directory, 'plugin.tgz') }, ['package']);
+
+    const { id } = await pluginsService.uploadPlugin(await fs.readFile(path.resolve(directory, 'plugin.tgz')));
+    const { uploaded } = (pluginsService as any).uploadedPlugins.get(id);
+    const installUploadedPlugin = jest.spyOn(pluginsService, 'installUploadedPlugin');
+
+    const result = await pluginsGateway.installUploadedPlugin(client, id);
+
+    expect((result as WsException).getError()).toContain('is not compatible with this system: Requires Node.js >=99.0.0');
+    expect(installUploadedPlugin).not.toHaveBeenCalled();
+    expect(await fs.pathExists(uploaded.directory)).toBe(false);
+  });
+});
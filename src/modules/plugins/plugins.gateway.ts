@@ -1,26 +1,77 @@
 import { UseGuards } from '@nestjs/common';
 import { SubscribeMessage, WebSocketGateway, WsException } from '@nestjs/websockets';
 import * as color from 'bash-color';
-import { PluginsService } from './plugins.service';
-import { Logger } from '../../core/logger/logger.service';
-import { WsAdminGuard } from '../../core/auth/guards/ws-admin-guard';
+import { PluginsService, HomebridgePluginCompatibility } from './plugins.service';
+import { PluginJobsService } from './plugin-jobs.service';
+import { AuditService } from '../../core/audit/audit.service';
+import { WsPermissionsGuard } from '../../core/auth/guards/ws-permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 
-@UseGuards(WsAdminGuard)
+@UseGuards(WsPermissionsGuard)
+@Permissions(Permission.PLUGINS_MANAGE)
 @WebSocketGateway({ namespace: '/plugins' })
 export class PluginsGateway {
 
   constructor(
     private pluginsService: PluginsService,
-    private logger: Logger,
+    private pluginJobsService: PluginJobsService,
+    private auditService: AuditService,
   ) { }
 
   @SubscribeMessage('install')
   async installPlugin(client, payload) {
     try {
-      return await this.pluginsService.installPlugin(payload, client);
+      const { name, version, ignoreCompatibility } = this.parsePayload(payload);
+      const job = await this.pluginJobsService.queueJob(client, 'install', name, version, async (output) => {
+        await this.checkCompatibility(output, () => this.pluginsService.checkPluginCompatibility(name, version), ignoreCompatibility);
+        return this.pluginsService.installPlugin(name, output, version);
+      });
+      const result = await this.pluginJobsService.waitForJob(client, job.id);
+      await this.auditService.logClient(client, 'plugin.install', name, { version, jobId: job.id });
+      return result;
+    } catch (e) {
+      return new WsException(e);
+    }
+  }
+
+  @SubscribeMessage('install-url')
+  async installPluginFromUrl(client, payload) {
+    try {
+      const { url, ignoreCompatibility } = typeof payload === 'string' ? { url: payload, ignoreCompatibility: false } : payload;
+      const job = await this.pluginJobsService.queueJob(client, 'install-url', url, undefined, async (output) => {
+        await this.checkCompatibility(output, () => this.pluginsService.checkPluginUrlCompatibility(url, output), ignoreCompatibility);
+        return this.pluginsService.installPluginFromUrl(url, output);
+      });
+      const result = await this.pluginJobsService.waitForJob(client, job.id);
+      await this.auditService.logClient(client, 'plugin.install', url, { jobId: job.id });
+      return result;
+    } catch (e) {
+      return new WsException(e);
+    }
+  }
+
+  @SubscribeMessage('install-upload')
+  async installUploadedPlugin(client, payload) {
+    try {
+      // the package is taken when the job is queued, so it can't expire or be installed again while it waits
+      const { uploadId, ignoreCompatibility } = typeof payload === 'string' ? { uploadId: payload, ignoreCompatibility: false } : payload;
+      const uploaded = this.pluginsService.takeUploadedPlugin(uploadId);
+      const { name, version } = uploaded || { name: 'upload', version: undefined };
+      const job = await this.pluginJobsService.queueJob(client, 'install-upload', name, version, async (output) => {
+        // the package is removed once npm has run, it must also be removed when the compatibility check stops the install
+        try {
+          await this.checkCompatibility(output, () => this.pluginsService.checkPluginPackageCompatibility(uploaded), ignoreCompatibility);
+        } catch (e) {
+          await this.pluginsService.discardUploadedPlugin(uploaded);
+          throw e;
+        }
+        return this.pluginsService.installUploadedPlugin(uploaded, output);
+      });
+      const result = await this.pluginJobsService.waitForJob(client, job.id);
+      await this.auditService.logClient(client, 'plugin.install', name, { source: 'upload', jobId: job.id });
+      return result;
     } catch (e) {
-      this.logger.error(e);
-      client.emit('stdout', '\n\r' + color.red(e.toString()) + '\n\r');
       return new WsException(e);
     }
   }
@@ -28,10 +79,12 @@ export class PluginsGateway {
   @SubscribeMessage('uninstall')
   async uninstallPlugin(client, payload) {
     try {
-      return await this.pluginsService.uninstallPlugin(payload, client);
+      const job = await this.pluginJobsService.queueJob(client, 'uninstall', payload, undefined,
+        (output) => this.pluginsService.uninstallPlugin(payload, output));
+      const result = await this.pluginJobsService.waitForJob(client, job.id);
+      await this.auditService.logClient(client, 'plugin.uninstall', payload, { jobId: job.id });
+      return result;
     } catch (e) {
-      this.logger.error(e);
-      client.emit('stdout', '\n\r' + color.red(e.toString()) + '\n\r');
       return new WsException(e);
     }
   }
@@ -39,10 +92,30 @@ export class PluginsGateway {
   @SubscribeMessage('update')
   async updatePlugin(client, payload) {
     try {
-      return await this.pluginsService.updatePlugin(payload, client);
+      const { name, version, ignoreCompatibility } = this.parsePayload(payload);
+      const job = await this.pluginJobsService.queueJob(client, 'update', name, version, async (output) => {
+        await this.checkCompatibility(output, () => this.pluginsService.checkPluginCompatibility(name, version), ignoreCompatibility);
+        return this.pluginsService.updatePlugin(name, output, version);
+      });
+      const result = await this.pluginJobsService.waitForJob(client, job.id);
+      await this.auditService.logClient(client, 'plugin.update', name, { version, jobId: job.id });
+      return result;
+    } catch (e) {
+      return new WsException(e);
+    }
+  }
+
+  @SubscribeMessage('update-all')
+  async updateAllPlugins(client, payload) {
+    try {
+      const job = await this.pluginJobsService.queueUpdateAll(client);
+      const result = await this.pluginJobsService.waitForJob(client, job.id);
+      await this.auditService.logClient(client, 'plugin.update', 'all', {
+        plugins: result.results.map(x => `${x.name}@${x.latestVersion}`),
+        jobId: job.id,
+      });
+      return result;
     } catch (e) {
-      this.logger.error(e);
-      client.emit('stdout', '\n\r' + color.red(e.toString()) + '\n\r');
       return new WsException(e);
     }
   }
@@ -50,9 +123,75 @@ export class PluginsGateway {
   @SubscribeMessage('homebridge-update')
   async homebridgeUpdate(client, payload) {
     try {
-      return await this.pluginsService.updateHomebridgePackage(client);
+      const job = await this.pluginJobsService.queueJob(client, 'homebridge-update', 'homebridge', undefined,
+        (output) => this.pluginsService.updateHomebridgePackage(output));
+      const result = await this.pluginJobsService.waitForJob(client, job.id);
+      await this.auditService.logClient(client, 'homebridge.update', 'homebridge', { jobId: job.id });
+      return result;
     } catch (e) {
-      return new WsException(e.message);
+      return new WsException(e);
     }
   }
+
+  /**
+   * Reconnect to a queued, running or finished job, the output the job has produced so far is sent first
+   */
+  @SubscribeMessage('job-attach')
+  async attachToJob(client, payload) {
+    try {
+      return await this.pluginJobsService.waitForJob(client, payload, true);
+    } catch (e) {
+      return new WsException(e.message || e);
+    }
+  }
+
+  /**
+   * Plugins that are not compatible with this system are only installed when the user has chosen to ignore the compatibility check
+   * The check runs in the job just before npm, so it sees the system as it is once the jobs queued before it have finished
+   * @param output
+   * @param check
+   * @param ignoreCompatibility
+   */
+  private async checkCompatibility(output, check: () => Promise<HomebridgePluginCompatibility>, ignoreCompatibility: boolean) {
+    output.emit('stdout', color.cyan(`Checking compatibility...\n\r`));
+
+    let compatibility: HomebridgePluginCompatibility;
+    try {
+      compatibility = await check();
+    } catch (e) {
+      // http exceptions wrap the error message in a response object
+      const message = `The compatibility check failed: ${(e.message && e.message.message) || e.message || e}`;
+      if (!ignoreCompatibility) {
+        throw new Error(message);
+      }
+      output.emit('stdout', color.yellow(`${message}\n\rContinuing as the compatibility check was ignored.\n\r\n\r`));
+      return;
+    }
+
+    for (const warning of compatibility.warnings) {
+      output.emit('stdout', color.yellow(`${warning}\n\r`));
+    }
+
+    if (compatibility.errors.length && !ignoreCompatibility) {
+      throw new Error(`${compatibility.name} v${compatibility.version} is not compatible with this system: ${compatibility.errors.join(', ')}`);
+    }
+
+    for (const error of compatibility.errors) {
+      output.emit('stdout', color.red(`${error}\n\r`));
+    }
+
+    output.emit('stdout', compatibility.errors.length ?
+      color.yellow(`Continuing as the compatibility check was ignored.\n\r\n\r`) : '\n\r');
+  }
+
+  /**
+   * The payload is either the plugin name, or the plugin name and the version to install
+   * Plugins that are not compatible with this system are only installed when ignoreCompatibility is set
+   * @param payload
+   */
+  private parsePayload(payload: string | { name: string, version?: string, ignoreCompatibility?: boolean }):
+    { name: string, version?: string, ignoreCompatibility: boolean } {
+    return typeof payload === 'string' ? { name: payload, ignoreCompatibility: false } :
+      { name: payload.name, version: payload.version || undefined, ignoreCompatibility: payload.ignoreCompatibility === true };
+  }
 }
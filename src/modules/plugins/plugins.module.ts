@@ -1,23 +1,30 @@
 import { Module } from '@nestjs/common';
 import { PassportModule } from '@nestjs/passport';
 import { PluginsService } from './plugins.service';
+import { PluginJobsService } from './plugin-jobs.service';
 import { LoggerModule } from '../../core/logger/logger.module';
 import { PluginsController } from './plugins.controller';
 import { PluginsGateway } from './plugins.gateway';
 import { ConfigModule } from '../../core/config/config.module';
+import { AuthModule } from '../../core/auth/auth.module';
+import { AuditModule } from '../../core/audit/audit.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     ConfigModule,
     LoggerModule,
+    AuditModule,
+    AuthModule,
   ],
   providers: [
     PluginsService,
+    PluginJobsService,
     PluginsGateway,
   ],
   exports: [
     PluginsService,
+    PluginJobsService,
   ],
   controllers: [
     PluginsController,
@@ -0,0 +1,335 @@
+// npm is never run in these tests, the native module is not built for the node version the tests run on
+jest.mock('node-pty-prebuilt-multiarch', () => ({ spawn: jest.fn() }));
+
+import * as os from 'os';
+import * as path from 'path';
+import * as http from 'http';
+import * as fs from 'fs-extra';
+import * as tar from 'tar';
+import { Test } from '@nestjs/testing';
+import { ConfigModule } from '../../core/config/config.module';
+import { ConfigService } from '../../core/config/config.service';
+import { LoggerModule } from '../../core/logger/logger.module';
+import { PluginsService } from './plugins.service';
+
+/**
+ * A minimal npm registry that serves package documents, and records the requests made to it
+ */
+class MockRegistry {
+  public url: string;
+  public requests: Array<{ url: string, authorization: string }> = [];
+
+  private server: http.Server;
+  private packages: { [name: string]: any } = {
+    'homebridge-example': this.createPackage('homebridge-example', ['1.0.0', '1.1.0']),
+    '@example/homebridge-scoped': this.createPackage('@example/homebridge-scoped', ['2.0.0']),
+  };
+
+  async start() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as any).port}`;
+  }
+
+  async stop() {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private createPackage(name: string, versions: string[]) {
+    return {
+      'name': name,
+      'dist-tags': { latest: versions[versions.length - 1] },
+      'versions': versions.reduce((result, version) => ({ ...result, [version]: { name, version } }), {}),
+    };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    this.requests.push({ url: req.url, authorization: req.headers.authorization });
+
+    // the registry may be served from a path, the package name is always the last segment
+    const pkg = this.packages[decodeURIComponent(req.url.split('/').pop())];
+
+    res.writeHead(pkg ? 200 : 404, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(pkg || { error: 'not_found' }));
+  }
+}
+
+describe('PluginsService', () => {
+  const storagePath = path.resolve(os.tmpdir(), `uix-plugins-test-${process.pid}`);
+  const userNpmrcPath = path.resolve(storagePath, 'user.npmrc');
+  const pluginNpmrcPath = path.resolve(storagePath, '.npmrc');
+  const mockRegistry = new MockRegistry();
+
+  // nothing listens on port 1, a request sent here means the wrong registry was used
+  const unusedRegistry = 'http://127.0.0.1:1';
+
+  let pluginsService: PluginsService;
+  let configService: ConfigService;
+
+  const writeNpmrc = (lines: string[], npmrcPath = userNpmrcPath) => fs.writeFile(npmrcPath, lines.join('\n'));
+
+  const lastRequest = () => mockRegistry.requests[mockRegistry.requests.length - 1];
+
+  /**
+   * Create a plugin package the same way npm pack does
+   */
+  const createPackage = async (pjson: { [key: string]: any }, files: string[] = []): Promise<Buffer> => {
+    const directory = await fs.mkdtemp(path.join(storagePath, 'package-'));
+    await fs.outputJson(path.resolve(directory, 'package', 'package.json'), pjson);
+    for (const file of files) {
+      await fs.outputFile(path.resolve(directory, 'package', file), '');
+    }
+    await tar.c({ gzip: true, cwd: directory, file: path.resolve(directory, 'plugin.tgz') }, ['package']);
+    return fs.readFile(path.resolve(directory, 'plugin.tgz'));
+  };
+
+  beforeAll(async () => {
+    await mockRegistry.start();
+
+    await fs.emptyDir(storagePath);
+    await fs.writeJson(path.resolve(storagePath, 'config.json'), {
+      bridge: { name: 'Homebridge', username: '0E:00:00:00:00:00', port: 51826, pin: '031-45-154' },
+      platforms: [{ platform: 'config', name: 'Config', port: 8080 }],
+    });
+
+    process.env.UIX_BASE_PATH = path.resolve(__dirname, '../../..');
+    process.env.UIX_CONFIG_PATH = path.resolve(storagePath, 'config.json');
+    process.env.UIX_STORAGE_PATH = storagePath;
+    process.env.UIX_CUSTOM_PLUGIN_PATH = path.resolve(storagePath, 'node_modules');
+    process.env.npm_config_userconfig = userNpmrcPath;
+    process.env.FAKE_TOKEN = 'token-from-env';
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => null);
+    jest.spyOn(console, 'error').mockImplementation(() => null);
+
+    await fs.remove(userNpmrcPath);
+    await fs.remove(pluginNpmrcPath);
+
+    const module = await Test.createTestingModule({
+      imports: [ConfigModule, LoggerModule],
+      providers: [PluginsService],
+    }).compile();
+
+    pluginsService = module.get(PluginsService);
+    configService = module.get(ConfigService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await mockRegistry.stop();
+    await fs.remove(storagePath);
+  });
+
+  describe('npm registry', () => {
+    it('uses the registry set in .npmrc', async () => {
+      await writeNpmrc([`registry=${mockRegistry.url}/`]);
+
+      const { versions } = await pluginsService.getPluginVersions('homebridge-example');
+
+      expect(versions.map(x => x.version)).toEqual(['1.1.0', '1.0.0']);
+      expect(lastRequest()).toEqual({ url: '/homebridge-example', authorization: undefined });
+    });
+
+    it('sends the auth token set for the registry, with environment variables replaced', async () => {
+      await writeNpmrc([
+        `registry=${mockRegistry.url}/`,
+        `${mockRegistry.url.replace('http:', '')}/:_authToken=\${FAKE_TOKEN}`,
+      ]);
+
+      await pluginsService.getPluginVersions('homebridge-example');
+
+      expect(lastRequest().authorization).toEqual('Bearer token-from-env');
+    });
+
+    it('sends the auth set for a parent path of the registry url', async () => {
+      await writeNpmrc([
+        `registry=${mockRegistry.url}/npm/private/`,
+        `${mockRegistry.url.replace('http:', '')}/:_auth=dXNlcjpwYXNz`,
+      ]);
+
+      await pluginsService.getPluginVersions('homebridge-example');
+
+      expect(lastRequest()).toEqual({ url: '/npm/private/homebridge-example', authorization: 'Basic dXNlcjpwYXNz' });
+    });
+
+    it('sends the username and password set for the registry', async () => {
+      await writeNpmrc([
+        `registry=${mockRegistry.url}/`,
+        `${mockRegistry.url.replace('http:', '')}/:username=user`,
+        `${mockRegistry.url.replace('http:', '')}/:_password=${Buffer.from('pass').toString('base64')}`,
+      ]);
+
+      await pluginsService.getPluginVersions('homebridge-example');
+
+      expect(lastRequest().authorization).toEqual(`Basic ${Buffer.from('user:pass').toString('base64')}`);
+    });
+
+    it('does not send auth set for a different registry', async () => {
+      await writeNpmrc([
+        `registry=${mockRegistry.url}/`,
+        '//registry.npmjs.org/:_authToken=not-for-this-registry',
+      ]);
+
+      await pluginsService.getPluginVersions('homebridge-example');
+
+      expect(lastRequest().authorization).toBeUndefined();
+    });
+
+    it('uses the .npmrc in the plugin directory over the user .npmrc', async () => {
+      await writeNpmrc([`registry=${unusedRegistry}/`]);
+      await writeNpmrc([`registry=${mockRegistry.url}/`], pluginNpmrcPath);
+
+      await pluginsService.getPluginVersions('homebridge-example');
+
+      expect(lastRequest().url).toEqual('/homebridge-example');
+    });
+
+    it('uses the registry set in the ui config over .npmrc, and passes it to npm', async () => {
+      await writeNpmrc([`registry=${unusedRegistry}/`]);
+      configService.ui.npmRegistry = mockRegistry.url;
+
+      await pluginsService.getPluginVersions('homebridge-example');
+
+      expect(lastRequest().url).toEqual('/homebridge-example');
+      expect((pluginsService as any).getNpmRegistryOptions()).toEqual(['--registry', mockRegistry.url]);
+    });
+
+    it('uses the registry set for the scope of a scoped package, and encodes the package name', async () => {
+      await writeNpmrc([
+        `registry=${unusedRegistry}/`,
+        `@example:registry=${mockRegistry.url}/`,
+      ]);
+      configService.ui.npmRegistry = unusedRegistry;
+
+      const { versions } = await pluginsService.getPluginVersions('@example/homebridge-scoped');
+
+      expect(versions.map(x => x.version)).toEqual(['2.0.0']);
+      expect(lastRequest().url).toEqual('/@example%2Fhomebridge-scoped');
+    });
+  });
+
+  describe('install from url', () => {
+    let npmCommands: string[][];
+
+    beforeEach(() => {
+      npmCommands = [];
+      jest.spyOn(pluginsService as any, 'getPluginInstallLocation').mockResolvedValue({ installPath: storagePath, installOptions: [] });
+      jest.spyOn(pluginsService as any, 'runNpmCommand').mockImplementation(async (command: string[]) => {
+        npmCommands.push(command);
+      });
+    });
+
+    it.each([
+      'git+https://github.com/user/homebridge-example.git',
+      'git+ssh://git@github.com/user/homebridge-example.git#v1.0.0',
+      'git://github.com/user/homebridge-example.git',
+      'github:user/homebridge-example',
+      'https://example.com/homebridge-example-1.0.0.tgz',
+    ])('installs %s', async (url) => {
+      await pluginsService.installPluginFromUrl(url, null);
+
+      expect(npmCommands.length).toEqual(1);
+      expect(npmCommands[0][npmCommands[0].length - 1]).toEqual(url);
+    });
+
+    it.each([
+      'http://example.com/homebridge-example-1.0.0.tgz',
+      'file:../homebridge-example',
+      '/tmp/homebridge-example',
+      'homebridge-example',
+      'github:user',
+      'https://example.com/plugin.tgz --ignore-scripts',
+      null,
+    ])('does not install %s', async (url) => {
+      await expect(pluginsService.installPluginFromUrl(url, null)).rejects.toThrow('can only be installed from git or https urls');
+
+      expect(npmCommands.length).toEqual(0);
+    });
+  });
+
+  describe('uploads', () => {
+    const pjson = { name: 'homebridge-example', version: '1.0.0', keywords: ['homebridge-plugin'] };
+
+    it('keeps each upload until it is taken with its id', async () => {
+      const first = await pluginsService.uploadPlugin(await createPackage(pjson));
+      const second = await pluginsService.uploadPlugin(await createPackage({ ...pjson, version: '1.1.0' }));
+
+      expect(first.id).not.toEqual(second.id);
+
+      const uploaded = pluginsService.takeUploadedPlugin(first.id);
+      expect(uploaded).toMatchObject({ name: 'homebridge-example', version: '1.0.0' });
+      expect(await fs.pathExists(uploaded.tarball)).toBe(true);
+      expect(pluginsService.takeUploadedPlugin(first.id)).toBeUndefined();
+
+      const other = pluginsService.takeUploadedPlugin(second.id);
+      expect(other).toMatchObject({ version: '1.1.0' });
+
+      await fs.remove(uploaded.directory);
+      await fs.remove(other.directory);
+    });
+
+    it('removes an upload that will not be installed', async () => {
+      const { id } = await pluginsService.uploadPlugin(await createPackage(pjson));
+      const { directory } = (pluginsService as any).uploadedPlugins.get(id).uploaded;
+
+      await pluginsService.removeUploadedPlugin(id);
+
+      expect(await fs.pathExists(directory)).toBe(false);
+      expect(pluginsService.takeUploadedPlugin(id)).toBeUndefined();
+    });
+
+    it('does not accept a package that is not a homebridge plugin', async () => {
+      await expect(pluginsService.uploadPlugin(await createPackage({ name: 'left-pad', version: '1.0.0' })))
+        .rejects.toMatchObject({ message: { message: 'The uploaded file is not a valid Homebridge plugin package' } });
+    });
+  });
+
+  describe('compatibility', () => {
+    const pjson = { name: 'homebridge-example', version: '2.0.0', keywords: ['homebridge-plugin'], engines: { node: '>=99.0.0' } };
+
+    it('checks the package.json in an uploaded package, and finds native code from the binding.gyp', async () => {
+      const { id } = await pluginsService.uploadPlugin(await createPackage(pjson, ['binding.gyp']));
+
+      const result = await pluginsService.checkUploadedPluginCompatibility(id);
+
+      expect(result).toMatchObject({ name: 'homebridge-example', version: '2.0.0' });
+      expect(result.errors).toEqual([`Requires Node.js >=99.0.0, the installed version is ${process.version}`]);
+      expect(result.warnings.join()).toContain('Compiles native code during the install');
+
+      await pluginsService.removeUploadedPlugin(id);
+    });
+
+    it('does not check an upload that has been removed', async () => {
+      await expect(pluginsService.checkUploadedPluginCompatibility('not-an-upload'))
+        .rejects.toMatchObject({ message: { message: expect.stringContaining('could not be found') } });
+    });
+
+    it('checks the package.json of the package npm downloads from a url', async () => {
+      const tarball = await createPackage(pjson);
+      const runNpmCommand = jest.spyOn(pluginsService as any, 'runNpmCommand').mockImplementation(async (command: string[], cwd: string) => {
+        await fs.writeFile(path.resolve(cwd, 'homebridge-example-2.0.0.tgz'), tarball);
+      });
+
+      const url = 'https://example.com/homebridge-example-2.0.0.tgz';
+      const result = await pluginsService.checkPluginUrlCompatibility(url);
+
+      expect(runNpmCommand.mock.calls[0][0]).toEqual(expect.arrayContaining(['pack', url]));
+      expect(await fs.pathExists(runNpmCommand.mock.calls[0][1] as string)).toBe(false);
+      expect(result).toMatchObject({ name: 'homebridge-example', version: '2.0.0' });
+      expect(result.errors.length).toEqual(1);
+    });
+
+    it('does not check a url that can not be installed', async () => {
+      const runNpmCommand = jest.spyOn(pluginsService as any, 'runNpmCommand');
+
+      await expect(pluginsService.checkPluginUrlCompatibility('file:../homebridge-example'))
+        .rejects.toMatchObject({ message: { message: expect.stringContaining('can only be installed from git or https urls') } });
+      expect(runNpmCommand).not.toHaveBeenCalled();
+    });
+  });
+});
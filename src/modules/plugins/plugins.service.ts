@@ -1,11 +1,13 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import * as os from 'os';
 import * as _ from 'lodash';
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import * as crypto from 'crypto';
 import * as child_process from 'child_process';
 import * as semver from 'semver';
 import * as rp from 'request-promise';
+import * as tar from 'tar';
 import * as color from 'bash-color';
 import * as pty from 'node-pty-prebuilt-multiarch';
 
@@ -18,9 +20,11 @@ export interface HomebridgePlugin {
   certifiedPlugin?: boolean;
   publicPackage?: boolean;
   installedVersion?: string;
-  latestVersion?: boolean;
+  latestVersion?: string;
   lastUpdated?: string;
   updateAvailable?: boolean;
+  // the version installed before the plugin was last changed, taken from the plugin job history
+  previousVersion?: string;
   installPath?: string;
   globalInstall?: boolean;
   settingsSchema?: boolean;
@@ -32,6 +36,34 @@ export interface HomebridgePlugin {
   author?: string;
 }
 
+export interface HomebridgePluginVersions {
+  name: string;
+  tags: { [tag: string]: string };
+  versions: Array<{
+    version: string;
+    publishedAt?: string;
+    deprecated?: string;
+    tags: string[];
+  }>;
+}
+
+export interface HomebridgePluginCompatibility {
+  name: string;
+  version: string;
+  // problems that will stop the plugin from installing or loading
+  errors: string[];
+  // problems that may cause the install to fail, or the plugin to misbehave
+  warnings: string[];
+}
+
+export interface UploadedPlugin {
+  id: string;
+  directory: string;
+  tarball: string;
+  name: string;
+  version: string;
+}
+
 @Injectable()
 export class PluginsService {
   private npm: Array<string> = this.getNpmPath();
@@ -40,6 +72,12 @@ export class PluginsService {
   // installed plugin cache
   private installedPlugins: HomebridgePlugin[];
 
+  // plugin packages that have been uploaded and are waiting to be installed, keyed by the id returned to the uploader
+  private uploadedPlugins = new Map<string, { uploaded: UploadedPlugin, expiry: NodeJS.Timer }>();
+
+  // uploads that are not installed within 30 minutes are removed
+  private readonly uploadTimeout = 30 * 60 * 1000;
+
   // setup requests with default options
   private rp = rp.defaults({
     json: true,
@@ -63,7 +101,7 @@ export class PluginsService {
 
     // filter out non-homebridge plugins by name
     const homebridgePlugins = modules
-      .filter(module => (module.name.indexOf('homebridge-') === 0))
+      .filter(module => this.isHomebridgePluginName(module.name))
       .filter(async module => (await fs.pathExists(path.join(module.installPath, 'package.json')).catch(x => null)))
       .filter(x => x);
 
@@ -92,6 +130,26 @@ export class PluginsService {
     return _.orderBy(plugins, ['updateAvailable', 'name'], ['desc', 'asc']);
   }
 
+  /**
+   * Returns the installed version of a plugin without contacting npm, or undefined if it is not installed
+   * Plugins in the custom plugin path take preference, the same as getInstalledPlugins
+   * @param pluginName
+   */
+  public async getInstalledPluginVersion(pluginName: string): Promise<string> {
+    const modules = (await this.getInstalledModules()).filter(x => x.name === pluginName);
+    const module = modules.find(x => x.path === this.configService.customPluginPath) || modules[0];
+
+    if (!module) {
+      return undefined;
+    }
+
+    try {
+      return (await fs.readJson(path.join(module.installPath, 'package.json'))).version;
+    } catch (e) {
+      return undefined;
+    }
+  }
+
   /**
    * Returns an array of out-of-date plugins
    */
@@ -109,11 +167,12 @@ export class PluginsService {
       await this.getInstalledPlugins();
     }
 
+    const registry = await this.getNpmRegistry();
     const q = ((!query || !query.length) ? '' : query + '+') + 'keywords:homebridge-plugin+not:deprecated&size=30';
-    const searchResults = await this.rp.get(`https://registry.npmjs.org/-/v1/search?text=${q}`);
+    const searchResults = await this.rp.get(`${registry.url}/-/v1/search?text=${q}`, { headers: registry.headers });
 
     const result: HomebridgePlugin[] = searchResults.objects
-      .filter(x => x.package.name.indexOf('homebridge-') === 0)
+      .filter(x => this.isHomebridgePluginName(x.package.name))
       .map((pkg) => {
         let plugin: HomebridgePlugin = {
           name: pkg.package.name,
@@ -140,7 +199,7 @@ export class PluginsService {
         return plugin;
       });
 
-    if (!result.length && query.indexOf('homebridge-') === 0) {
+    if (!result.length && this.isHomebridgePluginName(query)) {
       return await this.searchNpmRegistrySingle(query);
     }
 
@@ -154,7 +213,8 @@ export class PluginsService {
    */
   async searchNpmRegistrySingle(query: string): Promise<HomebridgePlugin[]> {
     try {
-      const pkg = await this.rp.get(`https://registry.npmjs.org/${encodeURIComponent(query).replace('%40', '@')}`);
+      const registry = await this.getNpmRegistry(query);
+      const pkg = await this.rp.get(`${registry.url}/${encodeURIComponent(query).replace('%40', '@')}`, { headers: registry.headers });
       if (!pkg.keywords || !pkg.keywords.includes('homebridge-plugin')) {
         return [];
       }
@@ -202,29 +262,143 @@ export class PluginsService {
    * Installs the requested plugin with NPM
    * @param pluginName
    * @param client
+   * @param version defaults to the latest version
    */
-  async installPlugin(pluginName: string, client) {
-    await this.getInstalledPlugins();
+  async installPlugin(pluginName: string, client, version: string = 'latest') {
+    this.checkVersion(version);
+    const { installPath, installOptions } = await this.getPluginInstallLocation(pluginName);
 
-    // install new plugins in the same location as this plugin
-    let installPath = (this.configService.customPluginPath) ?
-      this.configService.customPluginPath : this.installedPlugins.find(x => x.name === this.configService.name).installPath;
+    await this.runNpmCommand([...this.npm, 'install', '--unsafe-perm', ...installOptions, `${pluginName}@${version}`], installPath, client);
 
-    // prepare flags for npm command
-    const installOptions: Array<string> = [];
+    return true;
+  }
 
-    // check to see if custom plugin path is using a package.json file
-    if (installPath === this.configService.customPluginPath && await fs.pathExists(path.resolve(installPath, '../package.json'))) {
-      installOptions.push('--save');
-    }
+  /**
+   * Installs a plugin from a git repository, or a tarball url, with NPM
+   * @param url eg. git+https://github.com/user/homebridge-example.git, github:user/homebridge-example or https://example.com/plugin.tgz
+   * @param client
+   */
+  async installPluginFromUrl(url: string, client) {
+    this.checkPluginUrl(url);
 
-    installPath = path.resolve(installPath, '../');
+    const { installPath, installOptions } = await this.getPluginInstallLocation();
 
-    await this.runNpmCommand([...this.npm, 'install', '--unsafe-perm', ...installOptions, `${pluginName}@latest`], installPath, client);
+    await this.runNpmCommand([...this.npm, 'install', '--unsafe-perm', ...installOptions, url], installPath, client);
 
     return true;
   }
 
+  /**
+   * Only allow git and https urls, npm would also accept paths and other protocols here
+   * @param url
+   */
+  private checkPluginUrl(url: string) {
+    if (typeof url !== 'string' || /\s/.test(url) ||
+      !/^((git\+)?(https|ssh):\/\/|git:\/\/|github:[\w.-]+\/[\w.-]+)/.test(url)) {
+      throw new Error(`Plugins can only be installed from git or https urls: ${url}`);
+    }
+  }
+
+  /**
+   * Check an uploaded plugin package (.tgz), it is installed using installUploadedPlugin
+   * Returns the id of the upload, and the name and version of the plugin from the package.json in the package
+   * @param tarball
+   */
+  public async uploadPlugin(tarball: Buffer): Promise<{ id: string, name: string, version: string }> {
+    if (!Buffer.isBuffer(tarball) || !tarball.length) {
+      throw new BadRequestException('The plugin package must be uploaded as application/octet-stream');
+    }
+
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'homebridge-plugin-'));
+
+    try {
+      const tarballPath = path.resolve(directory, 'plugin.tgz');
+      await fs.writeFile(tarballPath, tarball);
+
+      const pjson = await this.readPackageManifest(tarballPath);
+      if (!this.isHomebridgePluginName(pjson.name) || !Array.isArray(pjson.keywords) || !pjson.keywords.includes('homebridge-plugin')) {
+        throw new Error('Not a homebridge plugin');
+      }
+
+      const id = crypto.randomBytes(16).toString('hex');
+      const expiry = setTimeout(() => this.removeUploadedPlugin(id), this.uploadTimeout);
+      expiry.unref();
+
+      this.uploadedPlugins.set(id, {
+        uploaded: { id, directory, tarball: tarballPath, name: pjson.name, version: pjson.version },
+        expiry,
+      });
+
+      return { id, name: pjson.name, version: pjson.version };
+    } catch (e) {
+      await fs.remove(directory);
+      throw new BadRequestException('The uploaded file is not a valid Homebridge plugin package');
+    }
+  }
+
+  /**
+   * Returns a plugin package uploaded using uploadPlugin, and removes it from the uploads so it can not be installed twice
+   * @param id the id returned by uploadPlugin
+   */
+  public takeUploadedPlugin(id: string): UploadedPlugin {
+    const upload = this.uploadedPlugins.get(id);
+
+    if (!upload) {
+      return undefined;
+    }
+
+    clearTimeout(upload.expiry);
+    this.uploadedPlugins.delete(id);
+    return upload.uploaded;
+  }
+
+  /**
+   * Remove a plugin package that was uploaded but will not be installed
+   * @param id the id returned by uploadPlugin
+   */
+  public async removeUploadedPlugin(id: string) {
+    await this.discardUploadedPlugin(this.takeUploadedPlugin(id));
+  }
+
+  /**
+   * Remove a plugin package returned by takeUploadedPlugin that will not be installed
+   * @param uploaded
+   */
+  public async discardUploadedPlugin(uploaded: UploadedPlugin) {
+    if (uploaded) {
+      await fs.remove(uploaded.directory);
+    }
+  }
+
+  /**
+   * Installs a plugin package returned by takeUploadedPlugin with NPM
+   * @param uploaded
+   * @param client
+   */
+  async installUploadedPlugin(uploaded: UploadedPlugin, client) {
+    if (!uploaded) {
+      throw new Error('The uploaded plugin package could not be found, it may have expired. Please upload it again.');
+    }
+
+    try {
+      const { installPath, installOptions } = await this.getPluginInstallLocation(uploaded.name);
+
+      // when the plugin is saved to a package.json the package is kept, otherwise npm would remove the plugin the next time it runs
+      let tarballPath = uploaded.tarball;
+      if (installOptions.includes('--save')) {
+        tarballPath = path.resolve(this.configService.storagePath, '.uix-plugin-packages',
+          `${uploaded.name.replace(/^@/, '').replace('/', '-')}-${uploaded.version}.tgz`);
+        await fs.copy(uploaded.tarball, tarballPath);
+      }
+
+      await this.runNpmCommand([...this.npm, 'install', '--unsafe-perm', ...installOptions, tarballPath], installPath, client);
+    } finally {
+      await this.discardUploadedPlugin(uploaded);
+    }
+
+    return uploaded.name;
+  }
+
   /**
    * Removes the requested plugin with NPM
    * @param pluginName
@@ -261,8 +435,10 @@ export class PluginsService {
    * Updates the requested plugin with NPM
    * @param pluginName
    * @param client
+   * @param version defaults to the latest version, can also be used to roll back to an older version
    */
-  async updatePlugin(pluginName: string, client) {
+  async updatePlugin(pluginName: string, client, version: string = 'latest') {
+    this.checkVersion(version);
     await this.getInstalledPlugins();
     // find the plugin
     const plugin = this.installedPlugins.find(x => x.name === pluginName);
@@ -274,7 +450,7 @@ export class PluginsService {
     let installPath = plugin.installPath;
 
     // prepare flags for npm command
-    const installOptions: Array<string> = [];
+    const installOptions: Array<string> = [...this.getNpmRegistryOptions()];
 
     // check to see if custom plugin path is using a package.json file
     if (installPath === this.configService.customPluginPath && await fs.pathExists(path.resolve(installPath, '../package.json'))) {
@@ -283,11 +459,377 @@ export class PluginsService {
 
     installPath = path.resolve(installPath, '../');
 
-    await this.runNpmCommand([...this.npm, 'install', '--unsafe-perm', ...installOptions, `${pluginName}@latest`], installPath, client);
+    await this.runNpmCommand([...this.npm, 'install', '--unsafe-perm', ...installOptions, `${pluginName}@${version}`], installPath, client);
 
     return true;
   }
 
+  /**
+   * Lists the versions of a plugin published to the npm registry, newest first
+   * @param pluginName
+   */
+  public async getPluginVersions(pluginName: string): Promise<HomebridgePluginVersions> {
+    const pkg = await this.getRegistryPackage(pluginName);
+
+    const tags: { [tag: string]: string } = pkg['dist-tags'] || {};
+    const time = pkg.time || {};
+
+    const versions = Object.keys(pkg.versions || {})
+      .filter(x => semver.valid(x))
+      .sort((a, b) => semver.rcompare(a, b))
+      .map((version) => ({
+        version,
+        publishedAt: time[version],
+        deprecated: pkg.versions[version].deprecated,
+        tags: Object.keys(tags).filter(x => tags[x] === version),
+      }));
+
+    return { name: pkg.name, tags, versions };
+  }
+
+  /**
+   * Check a version of a plugin published to npm can be installed and loaded, before npm is run
+   * The engines.node and engines.homebridge ranges are checked against the running Node.js and installed Homebridge versions,
+   * along with its peer dependencies, and whether it needs to compile native code during the install
+   * @param pluginName
+   * @param version an exact version or a dist-tag
+   */
+  public async checkPluginCompatibility(pluginName: string, version = 'latest'): Promise<HomebridgePluginCompatibility> {
+    try {
+      this.checkVersion(version);
+    } catch (e) {
+      throw new BadRequestException(e.message);
+    }
+
+    const pkg = await this.getRegistryPackage(pluginName);
+    const resolvedVersion = (pkg['dist-tags'] || {})[version] || version;
+    const manifest = (pkg.versions || {})[resolvedVersion];
+
+    if (!manifest) {
+      throw new NotFoundException(`Version "${version}" of "${pluginName}" Not Found`);
+    }
+
+    return this.checkManifestCompatibility({ name: pkg.name, ...manifest, version: resolvedVersion });
+  }
+
+  /**
+   * Check a plugin package uploaded using uploadPlugin can be installed and loaded, the same way as checkPluginCompatibility
+   * @param id the id returned by uploadPlugin
+   */
+  public async checkUploadedPluginCompatibility(id: string): Promise<HomebridgePluginCompatibility> {
+    const upload = this.uploadedPlugins.get(id);
+    return this.checkPluginPackageCompatibility(upload && upload.uploaded);
+  }
+
+  /**
+   * Check a plugin package returned by takeUploadedPlugin can be installed and loaded, the same way as checkPluginCompatibility
+   * @param uploaded
+   */
+  public async checkPluginPackageCompatibility(uploaded: UploadedPlugin): Promise<HomebridgePluginCompatibility> {
+    // not a NotFoundException, the message would not reach the ui
+    if (!uploaded) {
+      throw new BadRequestException('The uploaded plugin package could not be found, it may have expired. Please upload it again.');
+    }
+
+    return this.checkManifestCompatibility(await this.readPackageManifest(uploaded.tarball));
+  }
+
+  /**
+   * Check the plugin at a git or tarball url can be installed and loaded, the same way as checkPluginCompatibility
+   * npm downloads the package, or clones and packs the repository, so the package.json can be read before it is installed
+   * @param url
+   * @param client receives the npm output, when the url is checked as part of an install
+   */
+  public async checkPluginUrlCompatibility(url: string, client?): Promise<HomebridgePluginCompatibility> {
+    try {
+      this.checkPluginUrl(url);
+    } catch (e) {
+      throw new BadRequestException(e.message);
+    }
+
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'homebridge-plugin-'));
+
+    try {
+      try {
+        await this.runNpmCommand([...this.npm, 'pack', ...this.getNpmRegistryOptions(), url], directory, client || { emit: () => null });
+      } catch (e) {
+        throw new BadRequestException(`The plugin could not be downloaded from ${url}`);
+      }
+
+      const tarball = (await fs.readdir(directory)).find(x => x.endsWith('.tgz'));
+      if (!tarball) {
+        throw new BadRequestException(`The plugin could not be downloaded from ${url}`);
+      }
+
+      return await this.checkManifestCompatibility(await this.readPackageManifest(path.resolve(directory, tarball)));
+    } finally {
+      await fs.remove(directory);
+    }
+  }
+
+  /**
+   * Check the package.json of a version of a plugin against this system
+   * @param manifest
+   */
+  private async checkManifestCompatibility(manifest): Promise<HomebridgePluginCompatibility> {
+    const result: HomebridgePluginCompatibility = { name: manifest.name, version: manifest.version, errors: [], warnings: [] };
+    const engines = manifest.engines || {};
+    const peerDependencies: { [name: string]: string } = manifest.peerDependencies || {};
+
+    if (manifest.deprecated) {
+      result.warnings.push(`v${manifest.version} has been deprecated: ${manifest.deprecated}`);
+    }
+
+    if (engines.node && !this.satisfiesRange(process.version, engines.node)) {
+      result.errors.push(`Requires Node.js ${engines.node}, the installed version is ${process.version}`);
+    }
+
+    if (engines.homebridge || peerDependencies.homebridge) {
+      let homebridge: HomebridgePlugin;
+      try {
+        homebridge = await this.getHomebridgePackage();
+      } catch (e) {
+        result.warnings.push(`Requires Homebridge ${engines.homebridge || peerDependencies.homebridge}, but Homebridge could not be found`);
+      }
+
+      if (homebridge && engines.homebridge && !this.satisfiesRange(homebridge.installedVersion, engines.homebridge)) {
+        result.errors.push(`Requires Homebridge ${engines.homebridge}, the installed version is v${homebridge.installedVersion}`);
+      } else if (homebridge && !engines.homebridge && !this.satisfiesRange(homebridge.installedVersion, peerDependencies.homebridge)) {
+        result.warnings.push(`Expects Homebridge ${peerDependencies.homebridge}, the installed version is v${homebridge.installedVersion}`);
+      }
+    }
+
+    // npm does not install peer dependencies, they must already be installed alongside the plugin
+    const modules = await this.getInstalledModules();
+    for (const peer of Object.keys(peerDependencies).filter(x => x !== 'homebridge')) {
+      const installed = modules.find(x => x.name === peer);
+      const installedVersion = installed ? (await fs.readJson(path.resolve(installed.installPath, 'package.json')).catch(() => ({}))).version : null;
+
+      if (!installedVersion) {
+        result.warnings.push(`Requires ${peer}@${peerDependencies[peer]}, which is not installed`);
+      } else if (!this.satisfiesRange(installedVersion, peerDependencies[peer])) {
+        result.warnings.push(`Requires ${peer}@${peerDependencies[peer]}, the installed version is v${installedVersion}`);
+      }
+    }
+
+    if (this.hasNativeBuild(manifest)) {
+      const missingTools = await this.getMissingBuildTools();
+      if (missingTools.length) {
+        result.warnings.push(`Compiles native code during the install, but these build tools could not be found: ${missingTools.join(', ')}`);
+      } else {
+        result.warnings.push('Compiles native code during the install, this may take several minutes');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns the package.json from a plugin package (.tgz)
+   * The registry marks packages with a binding.gyp as "gypfile": true when they are published, packages that were not published are marked here
+   * @param tarball
+   */
+  private async readPackageManifest(tarball: string) {
+    const directory = path.dirname(tarball);
+
+    // packages created with npm pack keep their files in the package directory
+    await tar.x({
+      file: tarball,
+      cwd: directory,
+      filter: (entryPath: string) => entryPath === 'package/package.json' || entryPath === 'package/binding.gyp',
+    });
+
+    const pjson = await fs.readJson(path.resolve(directory, 'package', 'package.json'));
+    if (await fs.pathExists(path.resolve(directory, 'package', 'binding.gyp'))) {
+      pjson.gypfile = true;
+    }
+
+    return pjson;
+  }
+
+  /**
+   * Returns the package document for a plugin from the npm registry, listing every published version
+   * @param pluginName
+   */
+  private async getRegistryPackage(pluginName: string) {
+    const registry = await this.getNpmRegistry(pluginName);
+
+    try {
+      return await this.rp.get(`${registry.url}/${encodeURIComponent(pluginName).replace('%40', '@')}`, { headers: registry.headers });
+    } catch (e) {
+      if (e.statusCode === 404) {
+        throw new NotFoundException(`Plugin "${pluginName}" Not Found`);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Pre-release versions, such as Homebridge betas, are checked as if they were released
+   */
+  private satisfiesRange(version: string, range: string): boolean {
+    if (!semver.validRange(range)) {
+      return true;
+    }
+    return semver.satisfies(version, range, { includePrerelease: true });
+  }
+
+  /**
+   * Packages with a binding.gyp are published with "gypfile": true, others use a native addon helper or run node-gyp themselves
+   * @param manifest
+   */
+  private hasNativeBuild(manifest): boolean {
+    const nativeDependencies = ['node-gyp', 'nan', 'node-addon-api', 'bindings', 'prebuild-install', 'node-pre-gyp', '@mapbox/node-pre-gyp'];
+    const scripts = manifest.scripts || {};
+
+    return manifest.gypfile === true ||
+      Object.keys(manifest.dependencies || {}).some(x => nativeDependencies.includes(x)) ||
+      ['preinstall', 'install', 'postinstall'].some(x => typeof scripts[x] === 'string' && /node-gyp|prebuild/.test(scripts[x]));
+  }
+
+  /**
+   * Returns the tools node-gyp needs to compile native code that can not be found in the PATH
+   */
+  private async getMissingBuildTools(): Promise<string[]> {
+    // windows build tools are not installed in the PATH
+    if (os.platform() === 'win32') {
+      return [];
+    }
+
+    const tools = [
+      { name: 'make', commands: ['make'] },
+      { name: 'a C++ compiler', commands: ['g++', 'c++', 'clang++'] },
+      { name: 'python', commands: ['python3', 'python'] },
+    ];
+    const paths = (process.env.PATH || '').split(path.delimiter).filter(x => x);
+
+    const missing: string[] = [];
+    for (const tool of tools) {
+      const candidates = _.flatMap(tool.commands, command => paths.map(directory => path.resolve(directory, command)));
+      if (!(await Promise.all(candidates.map(x => fs.pathExists(x)))).includes(true)) {
+        missing.push(tool.name);
+      }
+    }
+
+    return missing;
+  }
+
+  /**
+   * Returns the directory npm should be run in to install a plugin, and the flags it needs
+   * Plugins that are already installed, such as when installing an older version, are installed in the same location
+   * New plugins are installed in the same location as this plugin
+   * @param pluginName
+   */
+  private async getPluginInstallLocation(pluginName?: string): Promise<{ installPath: string, installOptions: string[] }> {
+    await this.getInstalledPlugins();
+
+    const installed = pluginName ? this.installedPlugins.find(x => x.name === pluginName) : undefined;
+
+    let installPath = installed ? installed.installPath : (this.configService.customPluginPath) ?
+      this.configService.customPluginPath : this.installedPlugins.find(x => x.name === this.configService.name).installPath;
+
+    // prepare flags for npm command
+    const installOptions: Array<string> = [...this.getNpmRegistryOptions()];
+
+    // check to see if custom plugin path is using a package.json file
+    if (installPath === this.configService.customPluginPath && await fs.pathExists(path.resolve(installPath, '../package.json'))) {
+      installOptions.push('--save');
+    }
+
+    installPath = path.resolve(installPath, '../');
+
+    return { installPath, installOptions };
+  }
+
+  /**
+   * Returns the npm registry url, and the auth header for it from .npmrc
+   * The registry set in the ui config takes precedence over the registry set in .npmrc,
+   * except for scoped packages with their own registry in .npmrc, eg. @example:registry=https://npm.example.com, as npm does
+   * @param pluginName the package the registry is needed for
+   */
+  private async getNpmRegistry(pluginName?: string): Promise<{ url: string, headers: { [key: string]: string } }> {
+    const npmrc = await this.readNpmrc();
+    const scope = pluginName && pluginName.startsWith('@') ? pluginName.split('/')[0] : null;
+    const url = ((scope && npmrc[`${scope}:registry`]) || this.configService.ui.npmRegistry || npmrc.registry || 'https://registry.npmjs.org')
+      .replace(/\/+$/, '');
+    const headers: { [key: string]: string } = {};
+
+    // auth settings are keyed by the registry url without the protocol, eg. //npm.example.com/:_authToken
+    // settings for a parent path of the registry url also apply to it
+    let nerfDart = url.replace(/^https?:/, '') + '/';
+    while (nerfDart.length > 2) {
+      if (npmrc[`${nerfDart}:_authToken`]) {
+        headers.authorization = `Bearer ${npmrc[`${nerfDart}:_authToken`]}`;
+        break;
+      }
+      if (npmrc[`${nerfDart}:_auth`]) {
+        headers.authorization = `Basic ${npmrc[`${nerfDart}:_auth`]}`;
+        break;
+      }
+      if (npmrc[`${nerfDart}:username`] && npmrc[`${nerfDart}:_password`]) {
+        const password = Buffer.from(npmrc[`${nerfDart}:_password`], 'base64').toString('utf8');
+        headers.authorization = `Basic ${Buffer.from(`${npmrc[`${nerfDart}:username`]}:${password}`).toString('base64')}`;
+        break;
+      }
+      nerfDart = nerfDart.replace(/[^/]*\/$/, '');
+    }
+
+    return { url, headers };
+  }
+
+  /**
+   * The registry set in the ui config is passed to npm, npm reads the auth for it from .npmrc itself
+   */
+  private getNpmRegistryOptions(): string[] {
+    return this.configService.ui.npmRegistry ? ['--registry', this.configService.ui.npmRegistry] : [];
+  }
+
+  /**
+   * Read the user .npmrc, and the .npmrc in the directory plugins are installed to, which takes precedence
+   * Environment variables in values, eg. ${NPM_TOKEN}, are replaced the same way npm does
+   */
+  private async readNpmrc(): Promise<{ [key: string]: string }> {
+    const npmrc: { [key: string]: string } = {};
+
+    const npmrcPaths = [process.env.npm_config_userconfig || path.join(os.homedir(), '.npmrc')];
+    if (this.configService.customPluginPath) {
+      npmrcPaths.push(path.resolve(this.configService.customPluginPath, '../.npmrc'));
+    }
+
+    for (const npmrcPath of npmrcPaths) {
+      try {
+        if (!await fs.pathExists(npmrcPath)) {
+          continue;
+        }
+
+        for (const line of (await fs.readFile(npmrcPath, 'utf8')).split(/\r?\n/)) {
+          const separator = line.indexOf('=');
+          if (separator < 1 || /^\s*[#;]/.test(line)) {
+            continue;
+          }
+
+          npmrc[line.substr(0, separator).trim()] = line.substr(separator + 1).trim()
+            .replace(/^(["'])(.*)\1$/, '$2')
+            .replace(/\$\{([^}]+)\}/g, (match, name) => process.env[name] || '');
+        }
+      } catch (e) {
+        this.logger.error(`Failed to read ${npmrcPath}: ${e.message}`);
+      }
+    }
+
+    return npmrc;
+  }
+
+  /**
+   * Only allow exact versions and dist-tags, npm would also accept urls and paths here
+   * @param version
+   */
+  private checkVersion(version: string) {
+    if (typeof version !== 'string' || (!semver.valid(version) && !/^[a-z][a-z0-9._-]*$/i.test(version))) {
+      throw new Error(`Invalid version: ${version}`);
+    }
+  }
+
   /**
    * Gets the Homebridge package details
    */
@@ -335,7 +877,7 @@ export class PluginsService {
     let installPath = homebridge.installPath;
 
     // prepare flags for npm command
-    const installOptions: Array<string> = [];
+    const installOptions: Array<string> = [...this.getNpmRegistryOptions()];
 
     // check to see if custom plugin path is using a package.json file
     if (installPath === this.configService.customPluginPath && await fs.pathExists(path.resolve(installPath, '../package.json'))) {
@@ -375,12 +917,62 @@ export class PluginsService {
         configSchema.schema.properties.pin.default = this.configService.homebridgeConfig.bridge.pin;
       }
 
+      // show fields marked as secret as password inputs, their values are masked by the config editor
+      this.markSecretFields(configSchema.schema);
+
       return configSchema;
     } else {
       throw new NotFoundException();
     }
   }
 
+  /**
+   * Use a password input for each string field in a plugin config schema that is marked as "secret"
+   * @param schema
+   */
+  private markSecretFields(schema: any) {
+    if (typeof schema !== 'object' || schema === null) {
+      return;
+    }
+
+    if (schema.secret === true) {
+      schema['x-schema-form'] = Object.assign({ type: 'password' }, schema['x-schema-form']);
+    }
+
+    if (typeof schema.properties === 'object' && schema.properties !== null) {
+      Object.keys(schema.properties).forEach(key => this.markSecretFields(schema.properties[key]));
+    }
+
+    this.markSecretFields(schema.items);
+  }
+
+  /**
+   * Returns the config.schema.json of every installed plugin that has one
+   * Unlike getInstalledPlugins this does not contact npm, so it is fast enough to run each time the config is saved
+   */
+  public async getInstalledPluginConfigSchemas(): Promise<Array<{ pluginName: string, configSchema: any }>> {
+    const schemas = [];
+    const modules = (await this.getInstalledModules()).filter(module => this.isHomebridgePluginName(module.name));
+
+    for (const module of modules) {
+      // use the first copy of the plugin found, this is the one homebridge will load
+      if (schemas.find(x => x.pluginName === module.name)) {
+        continue;
+      }
+
+      const schemaPath = path.join(module.installPath, 'config.schema.json');
+      try {
+        if (await fs.pathExists(schemaPath)) {
+          schemas.push({ pluginName: module.name, configSchema: await fs.readJson(schemaPath) });
+        }
+      } catch (e) {
+        this.logger.error(`Failed to parse config.schema.json for "${module.name}": ${e.message}`);
+      }
+    }
+
+    return schemas;
+  }
+
   /**
    * Returns the changelog from the npm package for a plugin
    * @param pluginName
@@ -438,6 +1030,7 @@ export class PluginsService {
 
   /**
    * Returns a list of modules installed
+   * Scoped modules are listed with their full name, eg. @scope/homebridge-example
    */
   private async getInstalledModules(): Promise<Array<{ name: string, path: string, installPath: string }>> {
     const allModules = [];
@@ -445,6 +1038,25 @@ export class PluginsService {
     for (const requiredPath of this.paths) {
       const modules: any = await fs.readdir(requiredPath);
       for (const module of modules) {
+        if (module.charAt(0) === '@') {
+          // look inside the scope directory for the scoped modules
+          let scopedModules: string[] = [];
+          try {
+            scopedModules = await fs.readdir(path.join(requiredPath, module));
+          } catch (e) {
+            continue;
+          }
+
+          for (const scopedModule of scopedModules) {
+            allModules.push({
+              name: `${module}/${scopedModule}`,
+              installPath: path.join(requiredPath, module, scopedModule),
+              path: requiredPath,
+            });
+          }
+          continue;
+        }
+
         allModules.push({
           name: module,
           installPath: path.join(requiredPath, module),
@@ -455,6 +1067,14 @@ export class PluginsService {
     return allModules;
   }
 
+  /**
+   * Homebridge plugin names start with homebridge-, scoped plugins can be published under any scope
+   * @param name
+   */
+  private isHomebridgePluginName(name: string): boolean {
+    return /^(@[^/]+\/)?homebridge-/.test(name);
+  }
+
   /**
    * Helper function to work out where npm is
    */
@@ -543,7 +1163,8 @@ export class PluginsService {
    */
   private async getPluginFromNpm(plugin: HomebridgePlugin): Promise<HomebridgePlugin> {
     try {
-      const pkg = await this.rp.get(`https://registry.npmjs.org/${encodeURIComponent(plugin.name).replace('%40', '@')}`);
+      const registry = await this.getNpmRegistry(plugin.name);
+      const pkg = await this.rp.get(`${registry.url}/${encodeURIComponent(plugin.name).replace('%40', '@')}`, { headers: registry.headers });
       plugin.publicPackage = true;
       plugin.latestVersion = pkg['dist-tags'].latest;
       plugin.updateAvailable = semver.lt(plugin.installedVersion, plugin.latestVersion);
@@ -1,7 +1,10 @@
-import { Controller, Get, UseGuards, Res, Put } from '@nestjs/common';
+import { Controller, Get, UseGuards, Res, Put, Req } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { ServerService } from './server.service';
-import { AdminGuard } from '../../core/auth/guards/admin.guard';
+import { AuditService } from '../../core/audit/audit.service';
+import { PermissionsGuard } from '../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 
 @UseGuards(AuthGuard())
 @Controller('server')
@@ -9,23 +12,31 @@ export class ServerController {
 
   constructor(
     private serverService: ServerService,
+    private auditService: AuditService,
   ) { }
 
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.SERVER_RESTART)
   @Put('/restart')
-  restartServer(@Res() res) {
+  async restartServer(@Req() req, @Res() res) {
+    await this.auditService.logRequest(req, 'server.restart', 'homebridge');
     return this.serverService.restartServer(res);
   }
 
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.STATUS_VIEW)
   @Get('/qrcode.svg')
   async getQrCode(@Res() res) {
     res.type('image/svg+xml');
     return res.send(await this.serverService.generateQrCode());
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.CONFIG_EDIT)
   @Put('/reset-homebridge-accessory')
-  resetHomebridgeAccessory() {
-    return this.serverService.resetHomebridgeAccessory();
+  async resetHomebridgeAccessory(@Req() req) {
+    await this.serverService.resetHomebridgeAccessory();
+    await this.auditService.logRequest(req, 'server.reset-accessory', 'homebridge');
   }
 
 }
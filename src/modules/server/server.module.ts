@@ -5,12 +5,14 @@ import { ServerService } from './server.service';
 import { ServerController } from './server.controller';
 import { LoggerModule } from '../../core/logger/logger.module';
 import { ConfigEditorModule } from '../config-editor/config-editor.module';
+import { AuditModule } from '../../core/audit/audit.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     ConfigModule,
     LoggerModule,
+    AuditModule,
     ConfigEditorModule,
   ],
   providers: [
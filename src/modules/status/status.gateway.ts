@@ -3,9 +3,12 @@ import { UseGuards } from '@nestjs/common';
 import { SubscribeMessage, WebSocketGateway, WsException } from '@nestjs/websockets';
 import { PluginsService } from '../plugins/plugins.service';
 import { StatusService } from './status.service';
-import { WsGuard } from '../../core/auth/guards/ws.guard';
+import { WsPermissionsGuard } from '../../core/auth/guards/ws-permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
 
-@UseGuards(WsGuard)
+@UseGuards(WsPermissionsGuard)
+@Permissions(Permission.STATUS_VIEW)
 @WebSocketGateway({ namespace: 'status' })
 export class StatusGateway {
 
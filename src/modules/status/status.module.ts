@@ -4,12 +4,16 @@ import { StatusGateway } from './status.gateway';
 import { PluginsModule } from '../plugins/plugins.module';
 import { ConfigModule } from '../../core/config/config.module';
 import { LoggerModule } from '../../core/logger/logger.module';
+import { AuthModule } from '../../core/auth/auth.module';
+import { BackupModule } from '../backup/backup.module';
 
 @Module({
   imports: [
     LoggerModule,
     PluginsModule,
     ConfigModule,
+    AuthModule,
+    BackupModule,
   ],
   providers: [
     StatusService,
@@ -4,12 +4,14 @@ import * as rp from 'request-promise';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '../../core/config/config.service';
 import { Logger } from '../../core/logger/logger.service';
+import { BackupService } from '../backup/backup.service';
 
 @Injectable()
 export class StatusService {
   constructor(
     private logger: Logger,
     private configService: ConfigService,
+    private backupService: BackupService,
   ) { }
 
   /**
@@ -20,6 +22,7 @@ export class StatusService {
   public async watchStats(client) {
     client.emit('system-status', await this.getSystemStats());
     client.emit('homebridge-status', await this.getHomebridgeStats());
+    client.emit('backup-status', await this.backupService.getScheduledBackupStatus());
 
     const systemStatusInterval = setInterval(async () => {
       client.emit('system-status', await this.getSystemStats());
@@ -27,6 +30,7 @@ export class StatusService {
 
     const homebridgeStatusInterval = setInterval(async () => {
       client.emit('homebridge-status', await this.getHomebridgeStats());
+      client.emit('backup-status', await this.backupService.getScheduledBackupStatus());
     }, 10000);
 
     // cleanup on disconnect
@@ -1,7 +1,13 @@
-import { Controller, UseGuards, Body, Post, Get, Param, Delete, Patch } from '@nestjs/common';
+import { Controller, UseGuards, Body, Post, Get, Param, Delete, Patch, Req } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { AuthService } from '../../core/auth/auth.service';
-import { AdminGuard } from '../../core/auth/guards/admin.guard';
+import { ApiTokensService } from '../../core/auth/api-tokens.service';
+import { AuditService } from '../../core/audit/audit.service';
+import { SessionGuard } from '../../core/auth/guards/session.guard';
+import { PermissionsGuard } from '../../core/auth/guards/permissions.guard';
+import { Permissions } from '../../core/auth/decorators/permissions.decorator';
+import { Permission } from '../../core/auth/permissions';
+import { UserActivateOtpDto, UserConfirmPasswordDto, UserCreateApiTokenDto, UserUpdateProfileDto, UserChangePasswordDto } from './users.dto';
 
 @UseGuards(AuthGuard())
 @Controller('users')
@@ -9,29 +15,118 @@ export class UsersController {
 
   constructor(
     private authService: AuthService,
+    private apiTokensService: ApiTokensService,
+    private auditService: AuditService,
   ) { }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.USERS_MANAGE)
   @Get()
   getUsers() {
-    return this.authService.getUsers();
+    return this.authService.getUsers(true);
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.USERS_MANAGE)
   @Post()
-  addUser(@Body() body) {
-    return this.authService.addUser(body);
+  async addUser(@Req() req, @Body() body) {
+    const result = await this.authService.addUser(body);
+    await this.auditService.logRequest(req, 'user.create', body.username, { role: body.role });
+    return result;
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.USERS_MANAGE)
   @Patch('/:userId(\\d+)')
-  updateUser(@Param() param, @Body() body) {
-    return this.authService.updateUser(param.userId, body);
+  async updateUser(@Req() req, @Param() param, @Body() body) {
+    const user = await this.authService.findById(parseInt(param.userId, 10));
+    const result = await this.authService.updateUser(param.userId, body);
+    await this.auditService.logRequest(req, 'user.update', user.username, { fields: Object.keys(body || {}) });
+    return result;
   }
 
-  @UseGuards(AdminGuard)
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.USERS_MANAGE)
   @Delete('/:userId(\\d+)')
-  deleteUser(@Param() param) {
-    return this.authService.deleteUser(param.userId);
+  async deleteUser(@Req() req, @Param() param) {
+    const user = await this.authService.findById(parseInt(param.userId, 10));
+    const result = await this.authService.deleteUser(param.userId);
+    await this.auditService.logRequest(req, 'user.delete', user.username);
+    return result;
+  }
+
+  @UseGuards(PermissionsGuard)
+  @Permissions(Permission.USERS_MANAGE)
+  @Delete('/:userId(\\d+)/sessions')
+  async revokeUserSessions(@Req() req, @Param() param) {
+    const user = await this.authService.findById(parseInt(param.userId, 10));
+    const result = await this.authService.revokeUserSessions(param.userId);
+    await this.auditService.logRequest(req, 'user.sessions.revoke', user.username);
+    return result;
+  }
+
+  @Get('/me')
+  getProfile(@Req() req) {
+    return this.authService.getProfile(req.user.username);
+  }
+
+  @UseGuards(SessionGuard)
+  @Patch('/me')
+  async updateProfile(@Req() req, @Body() body: UserUpdateProfileDto) {
+    const result = await this.authService.updateProfile(req.user.username, body.name);
+    await this.auditService.logRequest(req, 'user.update', req.user.username, { fields: ['name'] });
+    return result;
+  }
+
+  @UseGuards(SessionGuard)
+  @Post('/me/password')
+  async changePassword(@Req() req, @Body() body: UserChangePasswordDto) {
+    const ip = this.authService.getClientAddress(req);
+    await this.authService.changePassword(req.user.username, body.currentPassword, body.newPassword, req.user.sid, ip);
+    await this.auditService.logRequest(req, 'user.password.change', req.user.username);
+  }
+
+  @UseGuards(SessionGuard)
+  @Post('/otp/setup')
+  setupOtp(@Req() req) {
+    return this.authService.setupOtp(req.user.username);
+  }
+
+  @UseGuards(SessionGuard)
+  @Post('/otp/activate')
+  activateOtp(@Req() req, @Body() body: UserActivateOtpDto) {
+    return this.authService.activateOtp(req.user.username, body.code);
+  }
+
+  @UseGuards(SessionGuard)
+  @Post('/otp/deactivate')
+  deactivateOtp(@Req() req, @Body() body: UserConfirmPasswordDto) {
+    const ip = this.authService.getClientAddress(req);
+    return this.authService.deactivateOtp(req.user.username, body.password, ip);
+  }
+
+  @UseGuards(SessionGuard)
+  @Post('/otp/recovery-codes')
+  regenerateOtpRecoveryCodes(@Req() req, @Body() body: UserConfirmPasswordDto) {
+    const ip = this.authService.getClientAddress(req);
+    return this.authService.regenerateOtpRecoveryCodes(req.user.username, body.password, ip);
+  }
+
+  @UseGuards(SessionGuard)
+  @Get('/api-tokens')
+  getApiTokens(@Req() req) {
+    return this.apiTokensService.getUserTokens(req.user.username);
+  }
+
+  @UseGuards(SessionGuard)
+  @Post('/api-tokens')
+  createApiToken(@Req() req, @Body() body: UserCreateApiTokenDto) {
+    return this.apiTokensService.createToken(req.user.username, body.name, body.scopes, req.user.permissions);
+  }
+
+  @UseGuards(SessionGuard)
+  @Delete('/api-tokens/:tokenId')
+  revokeApiToken(@Req() req, @Param() param) {
+    return this.apiTokensService.revokeToken(req.user.username, param.tokenId);
   }
 }
@@ -0,0 +1,46 @@
+import { IsString, IsNotEmpty, IsArray, ArrayNotEmpty, MinLength } from 'class-validator';
+
+export class UserActivateOtpDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly code: string;
+}
+
+// tslint:disable-next-line: max-classes-per-file
+export class UserConfirmPasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly password: string;
+}
+
+// tslint:disable-next-line: max-classes-per-file
+export class UserUpdateProfileDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+}
+
+// tslint:disable-next-line: max-classes-per-file
+export class UserChangePasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly currentPassword: string;
+
+  // the same rules as the password for a new user
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(4)
+  readonly newPassword: string;
+}
+
+// tslint:disable-next-line: max-classes-per-file
+export class UserCreateApiTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  readonly scopes: string[];
+}
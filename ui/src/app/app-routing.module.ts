@@ -2,7 +2,7 @@ import { NgModule } from '@angular/core';
 import { Routes, RouterModule } from '@angular/router';
 import { LayoutComponent } from './shared/layout/layout.component';
 import { AuthGuard } from './core/auth/auth.guard';
-import { AdminGuard } from './core/auth/admin.guard';
+import { PermissionGuard } from './core/auth/permission.guard';
 import { LoginComponent } from './core/auth/login/login.component';
 
 /*
@@ -29,35 +29,58 @@ const routes: Routes = [
       {
         path: 'restart',
         component: RestartComponent,
-        canActivate: [AdminGuard],
+        canActivate: [PermissionGuard],
+        data: { permission: 'server:restart' },
       },
       {
         path: 'plugins',
         loadChildren: () => import('./modules/plugins/plugins.module').then(m => m.PluginsModule),
-        canActivate: [AdminGuard],
+        canActivate: [PermissionGuard],
+        data: { permission: 'plugins:manage' },
       },
       {
         path: 'config',
         loadChildren: () => import('./modules/config-editor/config-editor.module').then(m => m.ConfigEditorModule),
-        canActivate: [AdminGuard],
+        canActivate: [PermissionGuard],
+        data: { permission: 'config:edit' },
       },
       {
         path: 'accessories',
         loadChildren: () => import('./modules/accessories/accessories.module').then(m => m.AccessoriesModule),
+        canActivate: [PermissionGuard],
+        data: { permission: 'accessories:view' },
       },
       {
         path: 'logs',
         loadChildren: () => import('./modules/logs/logs.module').then(m => m.LogsModule),
+        canActivate: [PermissionGuard],
+        data: { permission: 'logs:view' },
       },
       {
         path: 'users',
         loadChildren: () => import('./modules/users/users.module').then(m => m.UsersModule),
-        canActivate: [AdminGuard],
+        canActivate: [PermissionGuard],
+        data: { permission: 'users:manage' },
+      },
+      {
+        path: 'profile',
+        loadChildren: () => import('./modules/profile/profile.module').then(m => m.ProfileModule),
+      },
+      {
+        path: 'audit-log',
+        loadChildren: () => import('./modules/audit-log/audit-log.module').then(m => m.AuditLogModule),
+        canActivate: [PermissionGuard],
+        data: { permission: 'audit:view' },
+      },
+      {
+        path: 'backup',
+        loadChildren: () => import('./modules/backup/backup.module').then(m => m.BackupModule),
+        canActivate: [PermissionGuard],
+        data: { permission: 'backup:manage' },
       },
       {
         path: 'platform-tools',
         loadChildren: () => import('./modules/platform-tools/platform-tools.module').then(m => m.PlatformToolsModule),
-        canActivate: [AdminGuard],
       },
       // redirects from old urls below
       {
@@ -20,9 +20,21 @@ export class AuthGuard implements CanActivate {
       await this.$auth.getAppSettings();
     }
 
+    // the access token may have expired while the session is still active
+    if (!this.$auth.isLoggedIn() && (this.$auth.formAuth || this.$auth.proxyAuth) && this.$auth.hasRefreshToken()) {
+      await this.$auth.refreshToken().catch(() => { /* session expired or revoked */ });
+    }
+
     if (this.$auth.isLoggedIn()) {
       return true;
     } else {
+      // the reverse proxy has already authenticated the user, exchange the proxy header for a token
+      if (this.$auth.proxyAuth) {
+        return await this.$auth.proxyLogin()
+          .then(() => true)
+          .catch(() => false);
+      }
+
       // if using not using auth, get a token
       if (this.$auth.formAuth === false) {
         await this.$auth.noauth();
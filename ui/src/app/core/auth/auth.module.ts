@@ -7,7 +7,7 @@ import { environment } from '../../../environments/environment';
 import { LoginComponent } from './login/login.component';
 import { AuthService } from './auth.service';
 import { AuthGuard } from './auth.guard';
-import { AdminGuard } from './admin.guard';
+import { PermissionGuard } from './permission.guard';
 
 // token getter
 export function tokenGetter() {
@@ -35,7 +35,7 @@ export function tokenGetter() {
   providers: [
     AuthService,
     AuthGuard,
-    AdminGuard,
+    PermissionGuard,
   ],
   exports: [],
 })
@@ -10,6 +10,8 @@ interface UserInterface {
   username?: string;
   name?: string;
   admin?: boolean;
+  role?: string;
+  permissions?: string[];
   instanceId?: string;
 }
 
@@ -18,6 +20,8 @@ export class AuthService {
   public settingsLoaded = false;
   public env: any = {};
   public formAuth = true;
+  public proxyAuth = false;
+  public oidc: { name: string };
   public theme: string;
   public token: string;
   public user: UserInterface = {};
@@ -34,14 +38,15 @@ export class AuthService {
     this.getAppSettings();
   }
 
-  login(username: string, password: string) {
-    return this.$api.post('/auth/login', { username, password })
+  login(username: string, password: string, otp?: string) {
+    return this.$api.post('/auth/login', { username, password, otp })
       .toPromise()
       .then((resp) => {
         if (!this.validateToken(resp.access_token)) {
           throw new Error('Invalid username or password.');
         } else {
           window.localStorage.setItem(environment.jwt.tokenKey, resp.access_token);
+          window.localStorage.setItem(environment.jwt.refreshTokenKey, resp.refresh_token);
         }
       });
   }
@@ -58,10 +63,57 @@ export class AuthService {
       });
   }
 
+  proxyLogin() {
+    return this.$api.post('/auth/proxy', {})
+      .toPromise()
+      .then((resp) => {
+        if (!this.validateToken(resp.access_token)) {
+          throw new Error('Invalid username or password.');
+        } else {
+          window.localStorage.setItem(environment.jwt.tokenKey, resp.access_token);
+          window.localStorage.setItem(environment.jwt.refreshTokenKey, resp.refresh_token);
+        }
+      });
+  }
+
+  /**
+   * Store the tokens returned in the url fragment after an OpenID Connect login
+   * @param accessToken
+   * @param refreshToken
+   */
+  oidcLogin(accessToken: string, refreshToken: string) {
+    if (!this.validateToken(accessToken)) {
+      throw new Error('Invalid access token.');
+    }
+    window.localStorage.setItem(environment.jwt.tokenKey, accessToken);
+    window.localStorage.setItem(environment.jwt.refreshTokenKey, refreshToken);
+  }
+
+  oidcLoginUrl() {
+    return `${environment.api.base}/auth/oidc/login`;
+  }
+
   logout() {
+    // revoke the session on the server, then clear the local tokens
+    if (this.token && this.formAuth) {
+      this.$api.post('/auth/logout', {}).toPromise()
+        .catch(() => { /* the session may have already expired */ })
+        .then(() => this.clearSession());
+    } else {
+      this.clearSession();
+    }
+  }
+
+  logoutEverywhere() {
+    return this.$api.post('/auth/logout-everywhere', {}).toPromise()
+      .then(() => this.clearSession());
+  }
+
+  clearSession() {
     this.user = null;
     this.token = null;
     window.localStorage.removeItem(environment.jwt.tokenKey);
+    window.localStorage.removeItem(environment.jwt.refreshTokenKey);
     window.location.reload();
   }
 
@@ -74,9 +126,6 @@ export class AuthService {
 
   validateToken(token: string) {
     try {
-      if (this.$jwtHelper.isTokenExpired(token)) {
-        this.logout();
-      }
       this.user = this.$jwtHelper.decodeToken(token);
       this.token = token;
       this.setLogoutTimer();
@@ -92,14 +141,19 @@ export class AuthService {
     clearTimeout(this.logoutTimer);
     if (!this.$jwtHelper.isTokenExpired(this.token)) {
       const expires = dayjs(this.$jwtHelper.getTokenExpirationDate(this.token));
-      const timeout = expires.diff(dayjs(), 'millisecond');
+      // access tokens are short lived, refresh them shortly before they expire
+      const timeout = Math.max(expires.diff(dayjs(), 'millisecond') - 30000, 0);
       // setTimeout only accepts a 32bit integer, if the number is larger than this, do not timeout
       if (timeout <= 2147483647) {
         this.logoutTimer = setTimeout(() => {
-          if (this.formAuth === false) {
+          if (this.formAuth === false && this.proxyAuth === false) {
             this.noauth();
+          } else if (window.localStorage.getItem(environment.jwt.refreshTokenKey)) {
+            this.refreshToken().catch(() => this.proxyAuth ? this.proxyLogin() : this.clearSession());
+          } else if (this.proxyAuth) {
+            this.proxyLogin();
           } else {
-            this.logout();
+            this.clearSession();
           }
         }, timeout);
       }
@@ -107,7 +161,7 @@ export class AuthService {
   }
 
   isLoggedIn() {
-    if (this.env.instanceId !== this.user.instanceId) {
+    if (!this.user || this.env.instanceId !== this.user.instanceId) {
       console.error('Token does not match instance');
       return false;
     }
@@ -115,20 +169,32 @@ export class AuthService {
   }
 
   refreshToken() {
-    return this.$api.get('/api/auth/token').toPromise()
+    const refreshToken = window.localStorage.getItem(environment.jwt.refreshTokenKey);
+    return this.$api.post('/auth/refresh', { refresh_token: refreshToken }).toPromise()
       .then((resp: any) => {
         if (!this.validateToken(resp.access_token)) {
           throw new Error('Invalid username or password.');
         } else {
           window.localStorage.setItem(environment.jwt.tokenKey, resp.access_token);
+          window.localStorage.setItem(environment.jwt.refreshTokenKey, resp.refresh_token);
         }
       });
   }
 
+  hasPermission(permission: string) {
+    return Boolean(this.user && this.user.permissions && this.user.permissions.includes(permission));
+  }
+
+  hasRefreshToken() {
+    return Boolean(window.localStorage.getItem(environment.jwt.refreshTokenKey));
+  }
+
   getAppSettings() {
     return this.$api.get('/auth/settings').toPromise()
       .then((data: any) => {
         this.formAuth = data.formAuth;
+        this.proxyAuth = data.proxyAuth;
+        this.oidc = data.oidc;
         this.env = data.env;
         this.setTheme(data.theme || 'red');
         this.setTitle(data.env.homebridgeInstanceName);
@@ -12,6 +12,10 @@ import { AuthService } from '../auth.service';
 export class LoginComponent implements OnInit {
   public form: FormGroup;
   public invalidCredentials = false;
+  public invalid2faCode = false;
+  public lockedOut = false;
+  public oidcError: string;
+  public otpRequired = false;
   public inProgress = false;
   private targetRoute;
 
@@ -28,18 +32,62 @@ export class LoginComponent implements OnInit {
     });
 
     this.targetRoute = window.sessionStorage.getItem('target_route') || '';
+
+    // the result of an openid connect login is returned in the url fragment
+    if (window.location.hash) {
+      this.handleOidcCallback();
+    }
+  }
+
+  handleOidcCallback() {
+    const params = new URLSearchParams(window.location.hash.substr(1));
+
+    // remove the tokens from the address bar and browser history
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+    if (params.get('oidc_error')) {
+      this.oidcError = params.get('oidc_error');
+    } else if (params.get('access_token')) {
+      try {
+        this.$auth.oidcLogin(params.get('access_token'), params.get('refresh_token'));
+        this.$router.navigateByUrl(this.targetRoute);
+        window.sessionStorage.removeItem('target_route');
+      } catch (e) {
+        this.oidcError = e.message;
+      }
+    }
+  }
+
+  oidcLogin() {
+    window.location.href = this.$auth.oidcLoginUrl();
   }
 
   async onSubmit({ value, valid }) {
     this.invalidCredentials = false;
+    this.invalid2faCode = false;
+    this.lockedOut = false;
+    this.oidcError = null;
     this.inProgress = true;
-    await this.$auth.login(value.username, value.password)
+    await this.$auth.login(value.username, value.password, value.otp)
       .then((user) => {
         this.$router.navigateByUrl(this.targetRoute);
         window.sessionStorage.removeItem('target_route');
       })
       .catch((err) => {
-        this.invalidCredentials = true;
+        if (err.status === 429) {
+          // too many failed attempts from this ip address or for this user
+          this.lockedOut = true;
+        } else if (err.status === 412) {
+          // the user has 2fa enabled, ask for the code
+          if (!this.otpRequired) {
+            this.otpRequired = true;
+            this.form.addControl('otp', this.$fb.control('', Validators.required));
+          }
+        } else if (this.otpRequired && err.error && err.error.message === '2FA Code Invalid') {
+          this.invalid2faCode = true;
+        } else {
+          this.invalidCredentials = true;
+        }
       });
 
     this.inProgress = false;
@@ -2,26 +2,32 @@ import { Injectable } from '@angular/core';
 import { CanActivate, ActivatedRouteSnapshot, RouterStateSnapshot, Router } from '@angular/router';
 import { Observable } from 'rxjs';
 import { ToastrService } from 'ngx-toastr';
+import { TranslateService } from '@ngx-translate/core';
 
 import { AuthService } from './auth.service';
 
+/**
+ * Only allow access to a route if the user has the permission set in the route data
+ * eg. data: { permission: 'config:edit' }
+ */
 @Injectable({
   providedIn: 'root',
 })
-export class AdminGuard implements CanActivate {
+export class PermissionGuard implements CanActivate {
   constructor(
     private $auth: AuthService,
     private $toast: ToastrService,
     private $router: Router,
+    private translate: TranslateService,
   ) { }
 
   canActivate(
     next: ActivatedRouteSnapshot,
     state: RouterStateSnapshot): Observable<boolean> | Promise<boolean> | boolean {
-    if (this.$auth.user && this.$auth.user.admin) {
+    if (this.$auth.hasPermission(next.data.permission)) {
       return true;
     } else {
-      this.$toast.error('Only Administrators may access the requested page.');
+      this.$toast.error(this.translate.instant('toast.message_permission_denied'));
       this.$router.navigate(['/']);
       return false;
     }
@@ -131,7 +131,10 @@ export class HomebridgeGoogleSmarthomeComponent implements OnInit, OnDestroy {
         this.$toastr.success(this.translate.instant('config.toast_config_saved'), this.translate.instant('toast.title_success'));
       },
       (err) => {
-        this.$toastr.error(this.translate.instant('config.toast_failed_to_save_config'), this.translate.instant('toast.title_error'));
+        this.$toastr.error(
+          (err.error && err.error.errors) ? err.error.message : this.translate.instant('config.toast_failed_to_save_config'),
+          this.translate.instant('toast.title_error'),
+        );
       },
     );
   }
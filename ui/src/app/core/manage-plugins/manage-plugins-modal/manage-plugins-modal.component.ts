@@ -2,6 +2,7 @@ import { Component, OnInit, Input, OnDestroy } from '@angular/core';
 import { TranslateService } from '@ngx-translate/core';
 import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
 import { ToastrService } from 'ngx-toastr';
+import { Observable } from 'rxjs/Observable';
 import { Terminal } from 'xterm';
 import * as fit from 'xterm/lib/addons/fit/fit';
 
@@ -19,6 +20,10 @@ Terminal.applyAddon(fit);
 export class ManagePluginsModalComponent implements OnInit, OnDestroy {
   @Input() pluginName;
   @Input() action;
+  @Input() targetVersion: string;
+  @Input() source: 'upload' | 'url';
+  @Input() uploadId: string;
+  @Input() jobId: string;
 
   private io = this.$ws.connectToNamespace('plugins');
 
@@ -30,6 +35,17 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
   public updateSelf = false;
   public changeLog: string;
   public release;
+  public compatibility: { errors: string[], warnings: string[], checkFailed?: boolean };
+  private onCompatible: () => void;
+
+  // set once the user has accepted that the compatibility check could not be completed, the server checks again before npm runs
+  private ignoreCompatibility = false;
+
+  // jobs keep running on the server when the connection drops, they are reattached to when it is restored
+  private jobFinished = false;
+  private disconnected = false;
+  private onJobSuccess: (job) => void;
+  private onJobError: (err) => void;
 
   private toastSuccess: string;
   public presentTenseVerb: string;
@@ -53,11 +69,31 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
       this.term.write(data);
     });
 
+    this.io.socket.on('job', (job) => {
+      this.jobId = job.id;
+      if (this.action === 'Attach') {
+        this.pluginName = job.target;
+        this.presentTenseVerb = this.getJobVerb(job.action);
+      }
+    });
+
+    this.io.socket.on('disconnect', () => {
+      this.disconnected = true;
+    });
+
+    this.io.connected.subscribe(() => {
+      if (this.disconnected && this.jobId && !this.jobFinished) {
+        this.disconnected = false;
+        this.term.reset();
+        this.runJob(this.io.request('job-attach', this.jobId), this.onJobSuccess, this.onJobError);
+      }
+    });
+
     this.toastSuccess = this.translate.instant('toast.title_success');
 
     switch (this.action) {
       case 'Install':
-        this.install();
+        this.checkCompatibility(() => this.install());
         this.presentTenseVerb = this.translate.instant('plugins.manage.label_install');
         this.pastTenseVerb = this.translate.instant('plugins.manage.label_installed');
         break;
@@ -67,7 +103,7 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
         this.pastTenseVerb = this.translate.instant('plugins.manage.label_uninstalled');
         break;
       case 'Update':
-        this.getReleaseNotes();
+        this.checkCompatibility(() => this.getReleaseNotes());
         this.presentTenseVerb = this.translate.instant('plugins.manage.label_update');
         this.pastTenseVerb = this.translate.instant('plugins.manage.label_updated');
         break;
@@ -76,15 +112,86 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
         this.presentTenseVerb = this.translate.instant('plugins.manage.label_upgrade');
         this.pastTenseVerb = this.translate.instant('plugins.manage.label_homebridge_upgraded');
         break;
+      case 'UpdateAll':
+        this.updateAll();
+        this.presentTenseVerb = this.translate.instant('plugins.manage.label_update');
+        this.pastTenseVerb = this.translate.instant('plugins.manage.label_updated');
+        this.pluginName = this.translate.instant('plugins.manage.label_all_plugins');
+        break;
+      case 'Attach':
+        this.attach();
+        break;
     }
   }
 
+  /**
+   * Run a plugin job, keeping the handlers so they can be reused if the job is reattached to after a reconnect
+   */
+  private runJob(request: Observable<any>, onSuccess: (job) => void, onError: (err) => void) {
+    this.onJobSuccess = onSuccess;
+    this.onJobError = onError;
+
+    request.subscribe(
+      (job) => {
+        this.jobFinished = true;
+        onSuccess(job);
+      },
+      (err) => {
+        this.jobFinished = true;
+        onError(err);
+      },
+    );
+  }
+
+  /**
+   * Check the plugin is compatible with this system before npm runs
+   * Errors stop the install, warnings are shown and need to be accepted before it continues
+   * If the check fails the reason is shown as a warning, and the server is told to skip its own check once it is accepted
+   * @param next
+   */
+  checkCompatibility(next: () => void) {
+    const version = this.targetVersion ? `?version=${encodeURIComponent(this.targetVersion)}` : '';
+    const request = this.source === 'upload' ? this.$api.get(`/plugins/upload/${encodeURIComponent(this.uploadId)}/compatibility`) :
+      this.source === 'url' ? this.$api.get(`/plugins/url-compatibility?url=${encodeURIComponent(this.pluginName)}`) :
+        this.$api.get(`/plugins/compatibility/${encodeURIComponent(this.pluginName)}${version}`);
+
+    request.subscribe(
+      (data: { errors: string[], warnings: string[] }) => {
+        if (data.errors.length || data.warnings.length) {
+          this.compatibility = data;
+          this.onCompatible = next;
+        } else {
+          next();
+        }
+      },
+      (err) => {
+        this.compatibility = { errors: [], warnings: [err.error.message || err.message], checkFailed: true };
+        this.onCompatible = () => {
+          this.ignoreCompatibility = true;
+          next();
+        };
+      },
+    );
+  }
+
+  onContinueClick() {
+    this.compatibility = null;
+    this.onCompatible();
+  }
+
   install() {
-    this.io.request('install', this.pluginName).subscribe(
+    // plugins can also be installed from an uploaded package, or a git or tarball url
+    const ignoreCompatibility = this.ignoreCompatibility;
+    const request = this.source === 'upload' ? this.io.request('install-upload', { uploadId: this.uploadId, ignoreCompatibility }) :
+      this.source === 'url' ? this.io.request('install-url', { url: this.pluginName, ignoreCompatibility }) :
+        this.io.request('install', { name: this.pluginName, version: this.targetVersion, ignoreCompatibility });
+
+    this.runJob(request,
       (data) => {
         this.$router.navigate(['/plugins']);
         this.activeModal.close();
-        this.$toastr.success(`${this.pastTenseVerb} ${this.pluginName}`, this.toastSuccess);
+        const version = this.targetVersion ? ` v${this.targetVersion}` : '';
+        this.$toastr.success(`${this.pastTenseVerb} ${this.pluginName}${version}`, this.toastSuccess);
       },
       (err) => {
         this.$router.navigate(['/plugins']);
@@ -94,7 +201,7 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
   }
 
   uninstall() {
-    this.io.request('uninstall', this.pluginName).subscribe(
+    this.runJob(this.io.request('uninstall', this.pluginName),
       (data) => {
         this.activeModal.close();
         this.$router.navigate(['/plugins']);
@@ -108,7 +215,7 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
 
   update() {
     this.showReleaseNotes = false;
-    this.io.request('update', this.pluginName).subscribe(
+    this.runJob(this.io.request('update', { name: this.pluginName, ignoreCompatibility: this.ignoreCompatibility }),
       (data) => {
         if (this.pluginName === 'homebridge-config-ui-x') {
           this.updateSelf = true;
@@ -123,7 +230,7 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
   }
 
   upgradeHomebridge() {
-    this.io.request('homebridge-update').subscribe(
+    this.runJob(this.io.request('homebridge-update'),
       (data) => {
         this.$router.navigate(['/restart']);
         this.activeModal.close();
@@ -135,6 +242,57 @@ export class ManagePluginsModalComponent implements OnInit, OnDestroy {
     );
   }
 
+  updateAll() {
+    this.runJob(this.io.request('update-all'),
+      (job) => {
+        this.$router.navigate(['/plugins']);
+        this.$toastr.success(
+          this.translate.instant('plugins.manage.toast_updated_plugins', { count: job.results.filter(x => x.succeeded).length }),
+          this.toastSuccess,
+        );
+
+        if (job.results.find(x => x.name === 'homebridge-config-ui-x')) {
+          this.updateSelf = true;
+          this.actionComplete = true;
+        } else {
+          this.activeModal.close();
+        }
+      },
+      (err) => {
+        this.$router.navigate(['/plugins']);
+        this.$toastr.error(err.message, this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+  /**
+   * Show the output of a queued, running or finished job, and follow it until it finishes
+   */
+  attach() {
+    this.runJob(this.io.request('job-attach', this.jobId),
+      (job) => {
+        this.$router.navigate(['/plugins']);
+      },
+      (err) => {
+        this.$router.navigate(['/plugins']);
+      },
+    );
+  }
+
+  private getJobVerb(action: string): string {
+    switch (action) {
+      case 'uninstall':
+        return this.translate.instant('plugins.manage.label_uninstall');
+      case 'update':
+      case 'update-all':
+        return this.translate.instant('plugins.manage.label_update');
+      case 'homebridge-update':
+        return this.translate.instant('plugins.manage.label_upgrade');
+      default:
+        return this.translate.instant('plugins.manage.label_install');
+    }
+  }
+
   getChangeLog() {
     this.$api.get(`/plugins/changelog/${encodeURIComponent(this.pluginName)}`).subscribe(
       (data: { changelog: string }) => {
@@ -10,16 +10,25 @@ import { CoreModule } from '../core.module';
 import { ManagePluginsService } from './manage-plugins.service';
 import { SettingsPluginsModalComponent } from './settings-plugins-modal/settings-plugins-modal.component';
 import { ManagePluginsModalComponent } from './manage-plugins-modal/manage-plugins-modal.component';
+import { PluginVersionsModalComponent } from './plugin-versions-modal/plugin-versions-modal.component';
+import { PluginSourceModalComponent } from './plugin-source-modal/plugin-source-modal.component';
+import { PluginJobsModalComponent } from './plugin-jobs-modal/plugin-jobs-modal.component';
 import { CustomPluginsModule } from './custom-plugins/custom-plugins.module';
 
 @NgModule({
   entryComponents: [
     SettingsPluginsModalComponent,
     ManagePluginsModalComponent,
+    PluginVersionsModalComponent,
+    PluginSourceModalComponent,
+    PluginJobsModalComponent,
   ],
   declarations: [
     SettingsPluginsModalComponent,
     ManagePluginsModalComponent,
+    PluginVersionsModalComponent,
+    PluginSourceModalComponent,
+    PluginJobsModalComponent,
   ],
   imports: [
     CommonModule,
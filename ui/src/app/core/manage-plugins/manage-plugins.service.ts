@@ -3,6 +3,9 @@ import { NgbModal } from '@ng-bootstrap/ng-bootstrap';
 
 import { ManagePluginsModalComponent } from './manage-plugins-modal/manage-plugins-modal.component';
 import { SettingsPluginsModalComponent } from './settings-plugins-modal/settings-plugins-modal.component';
+import { PluginVersionsModalComponent } from './plugin-versions-modal/plugin-versions-modal.component';
+import { PluginSourceModalComponent } from './plugin-source-modal/plugin-source-modal.component';
+import { PluginJobsModalComponent } from './plugin-jobs-modal/plugin-jobs-modal.component';
 import { CustomPluginsService } from './custom-plugins/custom-plugins.service';
 
 @Injectable({
@@ -15,12 +18,33 @@ export class ManagePluginsService {
     private customPluginsService: CustomPluginsService,
   ) { }
 
-  installPlugin(pluginName) {
+  installPlugin(pluginName, version?: string) {
     const ref = this.modalService.open(ManagePluginsModalComponent, {
       size: 'lg',
     });
     ref.componentInstance.action = 'Install';
     ref.componentInstance.pluginName = pluginName;
+    ref.componentInstance.targetVersion = version;
+  }
+
+  /**
+   * Install a plugin from an uploaded package (.tgz) or a git or tarball url
+   */
+  installPluginFromSource() {
+    this.modalService.open(PluginSourceModalComponent, {
+      size: 'lg',
+    })
+      .result
+      .then((result: { source: 'upload' | 'url', name: string, uploadId?: string }) => {
+        const ref = this.modalService.open(ManagePluginsModalComponent, {
+          size: 'lg',
+        });
+        ref.componentInstance.action = 'Install';
+        ref.componentInstance.pluginName = result.name;
+        ref.componentInstance.source = result.source;
+        ref.componentInstance.uploadId = result.uploadId;
+      })
+      .catch(() => { /* modal dismissed */ });
   }
 
   uninstallPlugin(pluginName) {
@@ -39,6 +63,63 @@ export class ManagePluginsService {
     ref.componentInstance.pluginName = pluginName;
   }
 
+  /**
+   * Update every plugin that has an update available, the updates are run one after another on the server
+   */
+  updateAllPlugins() {
+    const ref = this.modalService.open(ManagePluginsModalComponent, {
+      size: 'lg',
+    });
+    ref.componentInstance.action = 'UpdateAll';
+  }
+
+  /**
+   * Show the plugin jobs that are queued, running or have recently finished, a job can be selected to view its output
+   */
+  showJobs() {
+    this.modalService.open(PluginJobsModalComponent, {
+      size: 'lg',
+    })
+      .result
+      .then((job: { id: string, target: string }) => {
+        const ref = this.modalService.open(ManagePluginsModalComponent, {
+          size: 'lg',
+        });
+        ref.componentInstance.action = 'Attach';
+        ref.componentInstance.jobId = job.id;
+        ref.componentInstance.pluginName = job.target;
+      })
+      .catch(() => { /* modal dismissed */ });
+  }
+
+  /**
+   * Select a version of an installed plugin to install from the versions published to npm
+   * @param plugin
+   */
+  selectPluginVersion(plugin: { name: string, installedVersion: string, previousVersion?: string }) {
+    const ref = this.modalService.open(PluginVersionsModalComponent, {
+      size: 'lg',
+    });
+    ref.componentInstance.pluginName = plugin.name;
+    ref.componentInstance.installedVersion = plugin.installedVersion;
+    ref.componentInstance.previousVersion = plugin.previousVersion;
+
+    ref.result
+      .then((version: string) => {
+        this.installPlugin(plugin.name, version);
+      })
+      .catch(() => { /* modal dismissed */ });
+  }
+
+  /**
+   * Reinstall the version of a plugin that was installed before it was last updated or changed
+   * The server records the previous version in the plugin job history once each job succeeds
+   * @param plugin
+   */
+  rollbackPlugin(plugin: { name: string, previousVersion: string }) {
+    this.installPlugin(plugin.name, plugin.previousVersion);
+  }
+
   upgradeHomebridge() {
     const ref = this.modalService.open(ManagePluginsModalComponent, {
       size: 'lg',
@@ -0,0 +1,59 @@
+import { Component, OnInit } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+
+import { ApiService } from '../../api.service';
+
+interface PluginJob {
+  id: string;
+  action: string;
+  target: string;
+  version?: string;
+  username?: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  created: string;
+  started?: string;
+  finished?: string;
+  error?: string;
+}
+
+@Component({
+  selector: 'app-plugin-jobs-modal',
+  templateUrl: './plugin-jobs-modal.component.html',
+  styleUrls: ['./plugin-jobs-modal.component.scss'],
+})
+export class PluginJobsModalComponent implements OnInit {
+  public jobs: PluginJob[];
+
+  public statusClass = {
+    queued: 'badge-secondary',
+    running: 'badge-info',
+    succeeded: 'badge-success',
+    failed: 'badge-danger',
+  };
+
+  constructor(
+    public activeModal: NgbActiveModal,
+    public $toastr: ToastrService,
+    private translate: TranslateService,
+    private $api: ApiService,
+  ) { }
+
+  ngOnInit() {
+    this.$api.get(`/plugins/jobs`).subscribe(
+      (data: PluginJob[]) => {
+        this.jobs = data;
+      },
+      (err) => {
+        this.activeModal.dismiss();
+        this.$toastr.error(this.translate.instant('plugins.jobs.toast_failed_to_load_jobs'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+  selectJob(job: PluginJob) {
+    this.activeModal.close(job);
+  }
+
+}
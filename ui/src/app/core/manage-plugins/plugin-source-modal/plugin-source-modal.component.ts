@@ -0,0 +1,72 @@
+import { Component, OnDestroy } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+
+import { ApiService } from '../../api.service';
+
+@Component({
+  selector: 'app-plugin-source-modal',
+  templateUrl: './plugin-source-modal.component.html',
+})
+export class PluginSourceModalComponent implements OnDestroy {
+  public url = '';
+  public uploaded: { id: string, name: string, version: string };
+  public uploadInProgress = false;
+
+  constructor(
+    public activeModal: NgbActiveModal,
+    public $toastr: ToastrService,
+    private translate: TranslateService,
+    private $api: ApiService,
+  ) { }
+
+  /**
+   * Upload a plugin package (.tgz), the server checks it is a homebridge plugin before it can be installed
+   * @param event
+   */
+  selectFile(event) {
+    const file: File = event.target.files[0];
+    if (!file) {
+      return;
+    }
+
+    this.removeUploaded();
+    this.uploadInProgress = true;
+    this.$api.post('/plugins/upload', file, { headers: { 'Content-Type': 'application/octet-stream' } }).subscribe(
+      (data) => {
+        this.uploadInProgress = false;
+        this.uploaded = data;
+      },
+      (err) => {
+        this.uploadInProgress = false;
+        this.$toastr.error(err.error.message || err.message, this.translate.instant('plugins.source.toast_failed_to_upload_plugin'));
+      },
+    );
+    event.target.value = '';
+  }
+
+  installUploaded() {
+    this.activeModal.close({ source: 'upload', name: this.uploaded.name, uploadId: this.uploaded.id });
+    this.uploaded = null;
+  }
+
+  installUrl() {
+    this.activeModal.close({ source: 'url', name: this.url.trim() });
+  }
+
+  /**
+   * Remove a package that was uploaded but will not be installed, the server would otherwise keep it until it expires
+   */
+  removeUploaded() {
+    if (this.uploaded) {
+      this.$api.delete(`/plugins/upload/${encodeURIComponent(this.uploaded.id)}`).subscribe(() => null, () => null);
+      this.uploaded = null;
+    }
+  }
+
+  ngOnDestroy() {
+    this.removeUploaded();
+  }
+
+}
@@ -0,0 +1,63 @@
+import { Component, OnInit, Input } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+
+import { ApiService } from '../../api.service';
+
+interface PluginVersion {
+  version: string;
+  publishedAt?: string;
+  deprecated?: string;
+  tags: string[];
+}
+
+@Component({
+  selector: 'app-plugin-versions-modal',
+  templateUrl: './plugin-versions-modal.component.html',
+  styleUrls: ['./plugin-versions-modal.component.scss'],
+})
+export class PluginVersionsModalComponent implements OnInit {
+  @Input() pluginName: string;
+  @Input() installedVersion: string;
+  @Input() previousVersion: string;
+
+  public versions: PluginVersion[];
+  public showPrerelease = false;
+
+  constructor(
+    public activeModal: NgbActiveModal,
+    public $toastr: ToastrService,
+    private translate: TranslateService,
+    private $api: ApiService,
+  ) { }
+
+  ngOnInit() {
+    this.$api.get(`/plugins/versions/${encodeURIComponent(this.pluginName)}`).subscribe(
+      (data: { versions: PluginVersion[] }) => {
+        this.versions = data.versions;
+      },
+      (err) => {
+        this.activeModal.dismiss();
+        this.$toastr.error(
+          (err.error && err.error.message) || this.translate.instant('plugins.versions.toast_failed_to_load_versions'),
+          this.translate.instant('toast.title_error'),
+        );
+      },
+    );
+  }
+
+  /**
+   * Pre-release versions are hidden unless they are installed or selected to be shown
+   */
+  get filteredVersions(): PluginVersion[] {
+    return (this.versions || []).filter((x) => {
+      return this.showPrerelease || !x.version.includes('-') || x.version === this.installedVersion || x.version === this.previousVersion;
+    });
+  }
+
+  selectVersion(version: string) {
+    this.activeModal.close(version);
+  }
+
+}
@@ -18,6 +18,7 @@ export class SettingsPluginsModalComponent implements OnInit {
   public form: any = {};
   public show;
   public saveInProgress: boolean;
+  private revision: string;
 
   public jsonFormOptions = {
     addSubmit: false,
@@ -124,9 +125,10 @@ export class SettingsPluginsModalComponent implements OnInit {
   }
 
   loadHomebridgeConfig() {
-    this.$api.get('/config-editor').subscribe(
-      (config) => {
-        this.homebridgeConfig = config;
+    this.$api.get('/config-editor', { observe: 'response' }).subscribe(
+      (res) => {
+        this.homebridgeConfig = res.body;
+        this.revision = res.headers.get('etag');
 
         if (!Array.isArray(this.homebridgeConfig.platforms)) {
           this.homebridgeConfig.platforms = [];
@@ -192,7 +194,9 @@ export class SettingsPluginsModalComponent implements OnInit {
       delete accessory.__uuid__;
     });
 
-    await this.$api.post('/config-editor', this.homebridgeConfig)
+    await this.$api.post('/config-editor', this.homebridgeConfig, {
+      headers: this.revision ? { 'If-Match': this.revision } : {},
+    })
       .toPromise()
       .then((done) => {
         this.$toastr.success(
@@ -202,7 +206,17 @@ export class SettingsPluginsModalComponent implements OnInit {
         this.activeModal.close();
       })
       .catch(err => {
-        this.$toastr.error(this.translate.instant('config.toast_failed_to_save_config'), this.translate.instant('toast.title_error'));
+        if (err.status === 409) {
+          this.$toastr.warning(
+            this.translate.instant('config.toast_config_modified'),
+            this.translate.instant('config.toast_title_config_conflict'),
+          );
+          return;
+        }
+        this.$toastr.error(
+          (err.status === 400 && err.error && err.error.message) || this.translate.instant('config.toast_failed_to_save_config'),
+          this.translate.instant('toast.title_error'),
+        );
       });
 
     this.saveInProgress = false;
@@ -85,6 +85,13 @@ export class WsService {
       },
     });
 
+    // access tokens are short lived, make sure reconnects use the latest token
+    socket.on('reconnect_attempt', () => {
+      socket.io.opts.query = {
+        token: this.$auth.token,
+      };
+    });
+
     function request(resource, payload): Observable<any> {
       return new Observable((observer) => {
         socket.emit(resource, payload, (resp) => {
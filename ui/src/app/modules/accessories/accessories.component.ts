@@ -260,6 +260,13 @@ export class AccessoriesComponent implements OnInit, OnDestroy {
 
           characteristic.setValue = (value: number | string | boolean) => {
             return new Promise((resolve, reject) => {
+              if (!this.$auth.hasPermission('accessories:control')) {
+                this.$toastr.error(
+                  this.translate.instant('accessories.message_control_not_permitted'),
+                  this.translate.instant('toast.title_error'),
+                );
+                return resolve();
+              }
               this.io.socket.emit('accessory-control', {
                 set: {
                   aid: service.aid,
@@ -0,0 +1,86 @@
+import { Component, OnInit } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { ToastrService } from 'ngx-toastr';
+import { ApiService } from '../../core/api.service';
+
+@Component({
+  selector: 'app-audit-log',
+  templateUrl: './audit-log.component.html',
+})
+export class AuditLogComponent implements OnInit {
+  public entries: Array<any> = [];
+  public loading = false;
+  public filter = {
+    username: '',
+    action: '',
+    from: '',
+    to: '',
+  };
+
+  constructor(
+    private $api: ApiService,
+    private $toastr: ToastrService,
+    private translate: TranslateService,
+  ) { }
+
+  ngOnInit() {
+    this.loadEntries();
+  }
+
+  loadEntries() {
+    this.loading = true;
+    this.$api.get('/audit', { params: this.getParams() }).subscribe(
+      (result) => {
+        this.entries = result;
+        this.loading = false;
+      },
+      (err) => {
+        this.loading = false;
+        this.$toastr.error(err.error.message || err.message, this.translate.instant('audit.toast_failed_to_load'));
+      },
+    );
+  }
+
+  resetFilter() {
+    this.filter = { username: '', action: '', from: '', to: '' };
+    this.loadEntries();
+  }
+
+  exportEntries(format: 'csv' | 'json') {
+    const params = Object.assign(this.getParams(), { format });
+    this.$api.get('/audit/export', { params, responseType: 'text' }).subscribe(
+      (data) => {
+        const dataStr = `data:${format === 'csv' ? 'text/csv' : 'text/json'};charset=utf-8,` + encodeURIComponent(data);
+        const downloadAnchorNode = document.createElement('a');
+        downloadAnchorNode.setAttribute('href', dataStr);
+        downloadAnchorNode.setAttribute('download', `homebridge-audit-log.${format}`);
+        document.body.appendChild(downloadAnchorNode); // required for firefox
+        downloadAnchorNode.click();
+        downloadAnchorNode.remove();
+      },
+      (err) => {
+        this.$toastr.error(err.error.message || err.message, this.translate.instant('audit.toast_failed_to_export'));
+      },
+    );
+  }
+
+  /**
+   * The date inputs are in the browser's timezone, send the start and end of each day to the server
+   */
+  private getParams() {
+    const params: { [key: string]: string } = {};
+    if (this.filter.username) {
+      params.username = this.filter.username;
+    }
+    if (this.filter.action) {
+      params.action = this.filter.action;
+    }
+    if (this.filter.from) {
+      params.from = new Date(`${this.filter.from}T00:00:00`).toISOString();
+    }
+    if (this.filter.to) {
+      params.to = new Date(`${this.filter.to}T23:59:59.999`).toISOString();
+    }
+    return params;
+  }
+}
@@ -0,0 +1,20 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { AuditLogRoutingModule } from './audit-log-routing.module';
+import { AuditLogComponent } from './audit-log.component';
+
+@NgModule({
+  declarations: [
+    AuditLogComponent,
+  ],
+  imports: [
+    CommonModule,
+    FormsModule,
+    TranslateModule.forChild(),
+    AuditLogRoutingModule,
+  ],
+})
+export class AuditLogModule { }
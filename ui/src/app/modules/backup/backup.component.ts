@@ -0,0 +1,118 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Router } from '@angular/router';
+import { TranslateService } from '@ngx-translate/core';
+import { ToastrService } from 'ngx-toastr';
+import { Terminal } from 'xterm';
+import * as fit from 'xterm/lib/addons/fit/fit';
+
+import { ApiService } from '../../core/api.service';
+import { WsService } from '../../core/ws.service';
+
+Terminal.applyAddon(fit);
+
+@Component({
+  selector: 'app-backup',
+  templateUrl: './backup.component.html',
+})
+export class BackupComponent implements OnInit, OnDestroy {
+  private io = this.$ws.connectToNamespace('backup');
+
+  private term = new Terminal();
+
+  public downloadInProgress = false;
+  public uploadInProgress = false;
+  public restoreInProgress = false;
+  public restoreComplete = false;
+  public manifest: {
+    createdAt: string,
+    uiVersion: string,
+    plugins: Array<{ name: string, version: string }>,
+  };
+
+  constructor(
+    private $api: ApiService,
+    private $ws: WsService,
+    private $toastr: ToastrService,
+    private $router: Router,
+    private translate: TranslateService,
+  ) { }
+
+  ngOnInit() {
+    this.term.open(document.getElementById('backup-restore-output'));
+
+    this.io.socket.on('stdout', (data) => {
+      this.term.write(data);
+    });
+  }
+
+  downloadBackup() {
+    this.downloadInProgress = true;
+    this.$api.get('/backup/download', { responseType: 'blob' }).subscribe(
+      (data: Blob) => {
+        this.downloadInProgress = false;
+        const url = URL.createObjectURL(data);
+        const downloadAnchorNode = document.createElement('a');
+        downloadAnchorNode.setAttribute('href', url);
+        downloadAnchorNode.setAttribute('download', `homebridge-backup-${new Date().toISOString().split('T')[0]}.tar.gz`);
+        document.body.appendChild(downloadAnchorNode); // required for firefox
+        downloadAnchorNode.click();
+        downloadAnchorNode.remove();
+        URL.revokeObjectURL(url);
+      },
+      (err) => {
+        this.downloadInProgress = false;
+        this.$toastr.error(this.translate.instant('backup.toast_failed_to_create_backup'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+  /**
+   * Upload the selected archive, the server returns it's manifest so the user can confirm the restore
+   * @param event
+   */
+  uploadBackup(event) {
+    const file: File = event.target.files[0];
+    if (!file) {
+      return;
+    }
+
+    this.manifest = null;
+    this.uploadInProgress = true;
+    this.$api.post('/backup/restore', file, { headers: { 'Content-Type': 'application/octet-stream' } }).subscribe(
+      (data) => {
+        this.uploadInProgress = false;
+        this.manifest = data;
+      },
+      (err) => {
+        this.uploadInProgress = false;
+        this.$toastr.error(err.error.message || err.message, this.translate.instant('backup.toast_failed_to_upload_backup'));
+      },
+    );
+    event.target.value = '';
+  }
+
+  restoreBackup() {
+    this.restoreInProgress = true;
+    setTimeout(() => (this.term as any).fit());
+
+    this.io.request('restore').subscribe(
+      (data) => {
+        this.restoreComplete = true;
+        this.manifest = null;
+        this.$toastr.success(this.translate.instant('backup.toast_backup_restored'), this.translate.instant('toast.title_success'));
+      },
+      (err) => {
+        this.restoreInProgress = false;
+        this.$toastr.error(err.message, this.translate.instant('backup.toast_failed_to_restore_backup'));
+      },
+    );
+  }
+
+  onRestartHomebridgeClick() {
+    this.$router.navigate(['/restart']);
+  }
+
+  ngOnDestroy() {
+    this.io.end();
+  }
+}
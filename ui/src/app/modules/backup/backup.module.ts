@@ -0,0 +1,18 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslateModule } from '@ngx-translate/core';
+
+import { BackupRoutingModule } from './backup-routing.module';
+import { BackupComponent } from './backup.component';
+
+@NgModule({
+  declarations: [
+    BackupComponent,
+  ],
+  imports: [
+    CommonModule,
+    TranslateModule.forChild(),
+    BackupRoutingModule,
+  ],
+})
+export class BackupModule { }
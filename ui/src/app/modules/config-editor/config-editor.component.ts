@@ -1,25 +1,63 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy, AfterViewInit, ViewChild } from '@angular/core';
 import { TranslateService } from '@ngx-translate/core';
 import { NgbModal } from '@ng-bootstrap/ng-bootstrap';
 import { ToastrService } from 'ngx-toastr';
+import { AceEditorComponent } from 'ng2-ace-editor';
+import { Subject, Subscription } from 'rxjs';
+import { debounceTime } from 'rxjs/operators';
 import 'brace/theme/xcode';
 import 'brace/mode/json';
+import 'brace/mode/yaml';
 
 import { ApiService } from '../../core/api.service';
 import { MobileDetectService } from '../../core/mobile-detect.service';
 import { ConfigRestoreBackupComponent } from './config-restore-backup/config.restore-backup.component';
+import { ConfigImportComponent } from './config-import/config-import.component';
+import { locateJsonPaths } from './json-path-locator';
+import { mergeConfigs } from './config-merge';
 import { ActivatedRoute } from '@angular/router';
 
+type ConfigFormat = 'json' | 'yaml' | 'json5';
+
+interface ConfigOutlineItem {
+  path: string;
+  section: 'bridge' | 'accessories' | 'platforms' | 'plugins' | 'other';
+  label: string;
+  type?: string;
+  name?: string;
+  pluginName?: string;
+  row?: number;
+  endRow?: number;
+  errors?: number;
+  warnings?: number;
+}
+
 @Component({
   selector: 'app-config',
   templateUrl: './config-editor.component.html',
 })
-export class ConfigEditorComponent implements OnInit {
+export class ConfigEditorComponent implements OnInit, OnDestroy, AfterViewInit {
+  @ViewChild(AceEditorComponent, { static: false }) aceEditor: AceEditorComponent;
   public homebridgeConfig: string;
+  public format: ConfigFormat = (window.localStorage.getItem('config-editor-format') as ConfigFormat) || 'json';
+  public formats: Array<{ format: ConfigFormat, label: string }> = [
+    { format: 'json', label: 'JSON' },
+    { format: 'yaml', label: 'YAML' },
+    { format: 'json5', label: 'JSON5' },
+  ];
+  public revision: string;
+  public conflict: boolean;
   public saveInProgress: boolean;
   public isMobile: any = false;
   public backupUrl: string;
   public options: any = { printMargin: false };
+  private originalConfig: any;
+  public validationIssues: Array<{ type: 'error' | 'warning', path: string, message: string, row?: number, column?: number }> = [];
+  public outline: ConfigOutlineItem[] = [];
+  public outlineFilter = '';
+  public showOutline = true;
+  private configChanged = new Subject();
+  private configChangedSubscription: Subscription;
 
   constructor(
     private $api: ApiService,
@@ -43,9 +81,209 @@ export class ConfigEditorComponent implements OnInit {
   }
 
   ngOnInit() {
+    this.configChangedSubscription = this.configChanged.pipe(debounceTime(1000)).subscribe(() => this.refreshOutline());
+
     this.$route.data
-      .subscribe((data: { config: string }) => {
-        this.homebridgeConfig = data.config;
+      .subscribe(async (data: { config: { config: any, revision: string } }) => {
+        try {
+          await this.setConfig(data.config.config, data.config.revision);
+        } catch (e) {
+          // fall back to json if the config could not be converted
+          this.format = 'json';
+          await this.setConfig(data.config.config, data.config.revision);
+        }
+      });
+  }
+
+  ngAfterViewInit() {
+    this.setEditorMode();
+  }
+
+  ngOnDestroy() {
+    this.configChangedSubscription.unsubscribe();
+  }
+
+  /**
+   * Load the config into the editor, the revision is sent back when saving so changes made elsewhere are not overwritten
+   * @param config
+   * @param revision
+   */
+  async setConfig(config: any, revision: string) {
+    this.homebridgeConfig = await this.toText(config);
+    this.revision = revision;
+    this.originalConfig = config;
+    this.conflict = false;
+    this.configChanged.next();
+  }
+
+  /**
+   * Convert a config to text in the format selected for the editor, yaml and json5 are converted by the server
+   * @param config
+   * @param format
+   */
+  async toText(config: any, format: ConfigFormat = this.format): Promise<string> {
+    if (format === 'json') {
+      return JSON.stringify(config, null, 4);
+    }
+    return this.$api.post(`/config-editor/convert?format=${format}`, config, { responseType: 'text' }).toPromise();
+  }
+
+  /**
+   * Parse the text in the editor, yaml and json5 are parsed by the server which returns the line and column of any syntax error
+   * @param text
+   */
+  async toConfig(text: string): Promise<any> {
+    if (this.format === 'json') {
+      return JSON.parse(text);
+    }
+    return this.$api.post('/config-editor/convert?format=json', text, {
+      headers: { 'Content-Type': this.format === 'yaml' ? 'text/yaml' : 'application/json5' },
+    }).toPromise();
+  }
+
+  /**
+   * Switch the editor to another format, the current text must be valid to be converted
+   * @param format
+   */
+  async onFormatChange(format: ConfigFormat) {
+    if (format === this.format) {
+      return;
+    }
+
+    let config;
+    try {
+      config = await this.toConfig(this.homebridgeConfig);
+    } catch (e) {
+      this.showSyntaxError(e);
+      return;
+    }
+
+    try {
+      this.homebridgeConfig = await this.toText(config, format);
+      this.format = format;
+    } catch (e) {
+      this.$toastr.error(this.translate.instant('config.toast_failed_to_convert_config'), this.translate.instant('toast.title_error'));
+      return;
+    }
+
+    window.localStorage.setItem('config-editor-format', this.format);
+    this.validationIssues = [];
+    this.outline = [];
+    this.setEditorMode();
+    this.configChanged.next();
+  }
+
+  /**
+   * Ace does not have a json5 mode, json5 uses the json mode without the json syntax checker
+   */
+  setEditorMode() {
+    if (this.aceEditor) {
+      const session = this.aceEditor.getEditor().getSession();
+      session.setMode(`ace/mode/${this.format === 'yaml' ? 'yaml' : 'json'}`);
+      session.setUseWorker(this.format === 'json');
+      session.setAnnotations([]);
+    }
+  }
+
+  /**
+   * Show where the config could not be parsed, the server returns the line and column for yaml and json5
+   * @param err
+   */
+  showSyntaxError(err) {
+    if (err.error && err.error.line) {
+      this.validationIssues = [
+        { type: 'error', path: '', message: err.error.message, row: err.error.line - 1, column: err.error.column - 1 },
+      ];
+      this.setAnnotations();
+    }
+
+    this.$toastr.error(
+      (err.error && err.error.message) || this.translate.instant('config.toast_config_invalid_json'),
+      this.translate.instant('config.toast_title_config_syntax_error'),
+    );
+  }
+
+  onConfigChanged() {
+    this.configChanged.next();
+  }
+
+  /**
+   * Update the outline and validation markers, the server finds the plugin for each block and checks it against the plugin's schema
+   * Nothing is updated while the config is not valid JSON, or when editing yaml or json5
+   */
+  async refreshOutline() {
+    if (this.isMobile || this.format !== 'json') {
+      return;
+    }
+
+    const text = this.homebridgeConfig;
+    let config;
+    try {
+      config = JSON.parse(text);
+    } catch (e) {
+      return;
+    }
+
+    try {
+      const [outline, validation] = await Promise.all([
+        this.$api.post('/config-editor/outline', config).toPromise(),
+        this.$api.post('/config-editor/validate', config).toPromise(),
+      ]);
+
+      // the config has changed again, another refresh is already on it's way
+      if (text !== this.homebridgeConfig) {
+        return;
+      }
+
+      this.showValidationIssues(validation);
+
+      const locations = locateJsonPaths(text);
+      this.outline = outline.map((item: ConfigOutlineItem) => {
+        const location = locations.get(item.path) || { row: 0, endRow: 0 };
+        const issues = this.validationIssues.filter((x) => {
+          return x.path === item.path || x.path.startsWith(item.path + '.') || x.path.startsWith(item.path + '[');
+        });
+
+        return Object.assign(item, {
+          row: location.row,
+          endRow: location.endRow,
+          errors: issues.filter(x => x.type === 'error').length,
+          warnings: issues.filter(x => x.type === 'warning').length,
+        });
+      });
+    } catch (e) {
+      // the outline is refreshed again on the next change
+    }
+  }
+
+  get filteredOutline(): ConfigOutlineItem[] {
+    const filter = this.outlineFilter.trim().toLowerCase();
+    if (!filter) {
+      return this.outline;
+    }
+
+    return this.outline.filter((item) => {
+      return [item.label, item.type, item.pluginName, item.path].some(x => x && x.toLowerCase().includes(filter));
+    });
+  }
+
+  /**
+   * Go to the JSON path entered in the outline filter (eg. platforms[1].name), or the first block that matches it
+   */
+  onOutlineSearch() {
+    const location = locateJsonPaths(this.homebridgeConfig).get(this.outlineFilter.trim());
+
+    if (this.outlineFilter.trim() && location) {
+      this.goToLocation(location);
+    } else if (this.filteredOutline.length) {
+      this.goToLocation({ row: this.filteredOutline[0].row, column: 0 });
+    }
+  }
+
+  loadConfig(): Promise<{ config: any, revision: string }> {
+    return this.$api.get('/config-editor', { observe: 'response' }).toPromise()
+      .then((res) => {
+        return { config: res.body, revision: res.headers.get('etag') as string };
       });
   }
 
@@ -55,68 +293,195 @@ export class ConfigEditorComponent implements OnInit {
     }
 
     this.saveInProgress = true;
-    // verify homebridgeConfig contains valid json
+    // verify homebridgeConfig can be parsed
+    let config;
     try {
-      const config = JSON.parse(this.homebridgeConfig);
+      config = await this.toConfig(this.homebridgeConfig);
+    } catch (e) {
+      this.showSyntaxError(e);
+      this.saveInProgress = false;
+      return;
+    }
 
-      // basic validation of homebridge config spec
-      if (typeof (config.bridge) !== 'object') {
-        this.$toastr.error(
-          this.translate.instant('config.toast_config_bridge_missing'),
-          this.translate.instant('config.toast_title_config_error'),
-        );
-      } else if (!/^([0-9A-Fa-f]{2}[:]){5}([0-9A-Fa-f]{2})$/.test(config.bridge.username)) {
-        this.$toastr.error(
-          this.translate.instant('config.toast_config_username_format_error'),
-          this.translate.instant('config.toast_title_config_error'),
-        );
-      } else if (config.accessories && !Array.isArray(config.accessories)) {
-        this.$toastr.error(
-          this.translate.instant('config.toast_config_accessory_must_be_array'),
-          this.translate.instant('config.toast_title_config_error'),
-        );
-      } else if (config.platforms && !Array.isArray(config.platforms)) {
+    // check the config on the server before saving it
+    try {
+      const validation = await this.$api.post('/config-editor/validate', config).toPromise();
+      this.showValidationIssues(validation);
+
+      if (validation.errors.length) {
         this.$toastr.error(
-          this.translate.instant('config.toast_config_platform_must_be_array'),
+          this.translate.instant('config.toast_config_has_errors'),
           this.translate.instant('config.toast_title_config_error'),
         );
       } else {
         await this.saveConfig(config);
       }
     } catch (e) {
-      this.$toastr.error(
-        this.translate.instant('config.toast_config_invalid_json'),
-        this.translate.instant('config.toast_title_config_syntax_error'),
-      );
+      this.$toastr.error(this.translate.instant('config.toast_failed_to_save_config'), this.translate.instant('toast.title_error'));
     }
     this.saveInProgress = false;
   }
 
-  saveConfig(config) {
-    return this.$api.post('/config-editor', config)
+  saveConfig(config, revision = this.revision) {
+    return this.$api.post('/config-editor', config, {
+      headers: revision ? { 'If-Match': revision } : {},
+      observe: 'response',
+    })
       .toPromise()
-      .then(data => {
+      .then(res => {
         this.$toastr.success(this.translate.instant('config.toast_config_saved'), this.translate.instant('toast.title_success'));
-        this.homebridgeConfig = JSON.stringify(data, null, 4);
+        return this.setConfig(res.body, res.headers.get('etag'));
       })
       .catch(err => {
-        this.$toastr.error(this.translate.instant('config.toast_failed_to_save_config'), this.translate.instant('toast.title_error'));
+        // config.json was saved by someone else since it was loaded
+        if (err.status === 409) {
+          this.conflict = true;
+          this.$toastr.warning(
+            this.translate.instant('config.toast_config_modified'),
+            this.translate.instant('config.toast_title_config_conflict'),
+          );
+          return;
+        }
+        if (err.error && err.error.errors) {
+          this.showValidationIssues(err.error);
+        }
+        this.$toastr.error(
+          (err.status === 400 && err.error && err.error.message) || this.translate.instant('config.toast_failed_to_save_config'),
+          this.translate.instant('toast.title_error'),
+        );
       });
   }
 
+  /**
+   * Discard the changes in the editor and load the latest config
+   */
+  async reloadConfig() {
+    try {
+      const latest = await this.loadConfig();
+      await this.setConfig(latest.config, latest.revision);
+      this.validationIssues = [];
+    } catch (e) {
+      this.$toastr.error(this.translate.instant('config.toast_failed_to_load_config'), this.translate.instant('toast.title_error'));
+    }
+  }
+
+  /**
+   * Merge the changes in the editor into the latest config, the result still needs to be saved
+   */
+  async onConflictMerge() {
+    let mine;
+    try {
+      mine = await this.toConfig(this.homebridgeConfig);
+    } catch (e) {
+      this.showSyntaxError(e);
+      return;
+    }
+
+    try {
+      const latest = await this.loadConfig();
+      const merged = mergeConfigs(this.originalConfig, mine, latest.config);
+
+      this.revision = latest.revision;
+      this.originalConfig = latest.config;
+      this.homebridgeConfig = await this.toText(merged.config);
+      this.conflict = false;
+
+      if (merged.conflicts.length) {
+        this.$toastr.warning(
+          this.translate.instant('config.toast_merge_conflicts', { blocks: merged.conflicts.join(', ') }),
+          this.translate.instant('config.toast_title_config_merged'),
+        );
+      } else {
+        this.$toastr.info(
+          this.translate.instant('config.toast_click_save_to_confirm_merge'),
+          this.translate.instant('config.toast_title_config_merged'),
+        );
+      }
+    } catch (e) {
+      this.$toastr.error(this.translate.instant('config.toast_failed_to_load_config'), this.translate.instant('toast.title_error'));
+    }
+  }
+
+  /**
+   * Save the config in the editor, replacing the changes made elsewhere
+   */
+  async onConflictOverwrite() {
+    this.saveInProgress = true;
+    try {
+      await this.saveConfig(await this.toConfig(this.homebridgeConfig), '*');
+    } catch (e) {
+      this.showSyntaxError(e);
+    }
+    this.saveInProgress = false;
+  }
+
+  /**
+   * Show the errors and warnings from the server next to the line they refer to
+   * Lines can only be found in json, for yaml and json5 the path of each issue is shown instead
+   * @param validation
+   */
+  showValidationIssues(validation: {
+    errors: Array<{ path: string, message: string }>,
+    warnings: Array<{ path: string, message: string }>,
+  }) {
+    const locations = locateJsonPaths(this.homebridgeConfig);
+
+    // issues for a missing key are shown against the closest parent that exists
+    const locate = (path: string) => {
+      if (this.format !== 'json') {
+        return {};
+      }
+      while (path && !locations.has(path)) {
+        path = path.replace(/(\.[^.\[]+|\[[^\]]+\])$/, '');
+      }
+      return locations.get(path) || { row: 0, column: 0 };
+    };
+
+    this.validationIssues = [].concat(
+      validation.errors.map(x => Object.assign({ type: 'error' }, x, locate(x.path))),
+      validation.warnings.map(x => Object.assign({ type: 'warning' }, x, locate(x.path))),
+    );
+
+    this.setAnnotations();
+  }
+
+  setAnnotations() {
+    if (this.aceEditor) {
+      this.aceEditor.getEditor().getSession().setAnnotations(this.validationIssues.filter(x => x.row !== undefined).map(x => ({
+        row: x.row,
+        column: x.column,
+        text: x.message,
+        type: x.type,
+      })));
+    }
+  }
+
+  goToLocation(location: { row?: number, column?: number }) {
+    if (this.aceEditor && location.row !== undefined) {
+      this.aceEditor.getEditor().gotoLine(location.row + 1, location.column, true);
+      this.aceEditor.getEditor().focus();
+    }
+  }
+
   onRestore() {
     this.modalService.open(ConfigRestoreBackupComponent, {
       size: 'lg',
     })
       .result
-      .then((backupId) => {
+      .then((result) => {
+        // selected sections were restored and saved on the server
+        if (result && result.config) {
+          return this.reloadConfig();
+        }
+
+        const backupId = result;
         this.$api.get(`/config-editor/backups/${backupId}`).subscribe(
-          json => {
+          async json => {
+            this.homebridgeConfig = await this.toText(json);
             this.$toastr.warning(
               this.translate.instant('config.toast_click_save_to_confirm_backup_restore'),
               this.translate.instant('config.toast_title_backup_loaded'),
             );
-            this.homebridgeConfig = JSON.stringify(json, null, 4);
           },
           err => this.$toastr.error(err.error.message || 'Failed to load config backup', this.translate.instant('toast.title_error')),
         );
@@ -124,8 +489,31 @@ export class ConfigEditorComponent implements OnInit {
       .catch(() => { /* modal dismissed */ });
   }
 
-  onExportConfig() {
-    const dataStr = 'data:text/json;charset=utf-8,' + encodeURIComponent(this.homebridgeConfig);
+  onImport() {
+    this.modalService.open(ConfigImportComponent, {
+      size: 'lg',
+    })
+      .result
+      .then((result) => {
+        // the selected blocks were merged into the config and saved on the server
+        if (result && result.config) {
+          return this.reloadConfig();
+        }
+      })
+      .catch(() => { /* modal dismissed */ });
+  }
+
+  async onExportConfig() {
+    // the backup is always saved as config.json
+    let config;
+    try {
+      config = await this.toConfig(this.homebridgeConfig);
+    } catch (e) {
+      this.showSyntaxError(e);
+      return;
+    }
+
+    const dataStr = 'data:text/json;charset=utf-8,' + encodeURIComponent(JSON.stringify(config, null, 4));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute('href', dataStr);
     downloadAnchorNode.setAttribute('download', 'config.json');
@@ -6,6 +6,7 @@ import { AceEditorModule } from 'ng2-ace-editor';
 
 import { ConfigEditorRoutingModule } from './config-editor-routing.module';
 import { ConfigRestoreBackupComponent } from './config-restore-backup/config.restore-backup.component';
+import { ConfigImportComponent } from './config-import/config-import.component';
 import { ConfigEditorComponent } from './config-editor.component';
 import { ConfigEditorResolver } from './config-editor.resolver';
 import { NgbModule } from '@ng-bootstrap/ng-bootstrap';
@@ -13,10 +14,12 @@ import { NgbModule } from '@ng-bootstrap/ng-bootstrap';
 @NgModule({
   entryComponents: [
     ConfigRestoreBackupComponent,
+    ConfigImportComponent,
   ],
   declarations: [
     ConfigEditorComponent,
     ConfigRestoreBackupComponent,
+    ConfigImportComponent,
   ],
   imports: [
     CommonModule,
@@ -15,9 +15,12 @@ export class ConfigEditorResolver implements Resolve<any> {
     route: ActivatedRouteSnapshot,
     state: RouterStateSnapshot,
   ) {
-    return this.$api.get('/config-editor').toPromise()
-      .then((json) => {
-        return JSON.stringify(json, null, 4);
+    return this.$api.get('/config-editor', { observe: 'response' }).toPromise()
+      .then((res) => {
+        return {
+          config: res.body,
+          revision: res.headers.get('etag'),
+        };
       })
       .catch((err) => {
         this.$toastr.error(err.message, 'Failed to Load Config');
@@ -0,0 +1,112 @@
+import { Component } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+import { ApiService } from '../../../core/api.service';
+
+interface ConfigImportBlock {
+  path: string;
+  section: 'bridge' | 'accessories' | 'platforms';
+  label: string;
+  type?: string;
+  name?: string;
+  replaces?: string;
+  collisions: Array<{ type: 'name' | 'singular' | 'username' | 'port' | 'secret', message: string }>;
+}
+
+@Component({
+  selector: 'app-config-import',
+  templateUrl: './config-import.component.html',
+})
+export class ConfigImportComponent {
+  public importConfig: any;
+  public importBlocks: ConfigImportBlock[];
+  public selectedPaths: { [path: string]: boolean } = {};
+  public loading = false;
+  public importInProgress = false;
+
+  constructor(
+    public activeModal: NgbActiveModal,
+    private translate: TranslateService,
+    public $toastr: ToastrService,
+    private $api: ApiService,
+  ) { }
+
+  /**
+   * Read the selected config.json and ask the server which blocks can be imported from it
+   * @param event
+   */
+  selectFile(event) {
+    const file: File = event.target.files[0];
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        this.preview(JSON.parse(reader.result as string));
+      } catch (e) {
+        this.$toastr.error(
+          this.translate.instant('config.toast_config_invalid_json'),
+          this.translate.instant('config.import.toast_failed_to_read_config'),
+        );
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  }
+
+  preview(config) {
+    this.loading = true;
+    this.$api.post('/config-editor/import/preview', { config }).subscribe(
+      (data: ConfigImportBlock[]) => {
+        this.loading = false;
+        this.importConfig = config;
+        this.importBlocks = data;
+
+        // blocks that do not collide with anything are selected by default, the bridge is only imported when asked for
+        this.selectedPaths = {};
+        for (const block of data) {
+          this.selectedPaths[block.path] = block.section !== 'bridge' && !block.collisions.length;
+        }
+      },
+      (err) => {
+        this.loading = false;
+        this.$toastr.error(err.error.message || err.message, this.translate.instant('config.import.toast_failed_to_read_config'));
+      },
+    );
+  }
+
+  back() {
+    this.importConfig = null;
+    this.importBlocks = null;
+  }
+
+  get selectedCount() {
+    return Object.keys(this.selectedPaths).filter(path => this.selectedPaths[path]).length;
+  }
+
+  /**
+   * Merge the selected blocks into the current config
+   * The modal is closed with the updated config so the editor can show it
+   */
+  importSelected() {
+    const paths = Object.keys(this.selectedPaths).filter(path => this.selectedPaths[path]);
+    if (!paths.length) {
+      return;
+    }
+
+    this.importInProgress = true;
+    this.$api.post('/config-editor/import', { config: this.importConfig, paths }).subscribe(
+      (config) => {
+        this.$toastr.success(this.translate.instant('config.import.toast_config_imported'), this.translate.instant('toast.title_success'));
+        this.activeModal.close({ config });
+      },
+      (err) => {
+        this.importInProgress = false;
+        this.$toastr.error(err.error.message || err.message, this.translate.instant('config.import.toast_failed_to_import_config'));
+      },
+    );
+  }
+}
@@ -0,0 +1,119 @@
+interface ConfigBlock {
+  key: string;
+  section: 'bridge' | 'accessories' | 'platforms' | 'plugins' | 'other';
+  label: string;
+  value: any;
+}
+
+export interface ConfigMergeResult {
+  config: any;
+  conflicts: string[];
+}
+
+/**
+ * Merge the changes made in the editor with the changes someone else saved to config.json in the meantime
+ * The bridge, each accessory and platform, the plugins list and any other top level keys are merged as a whole,
+ * matched the same way the server matches them when comparing config backups
+ * Blocks changed on both sides keep the version from the editor, their labels are returned as conflicts
+ * @param base the config as it was when it was loaded into the editor
+ * @param mine the config currently in the editor
+ * @param theirs the config currently saved on the server
+ */
+export function mergeConfigs(base: any, mine: any, theirs: any): ConfigMergeResult {
+  const baseBlocks = getConfigBlocks(base);
+  const myBlocks = getConfigBlocks(mine);
+  const theirBlocks = getConfigBlocks(theirs);
+
+  // blocks in the order they appear in the saved config, followed by any that were only added in the editor
+  const keys = theirBlocks.map(x => x.key).concat(myBlocks.map(x => x.key).filter(key => !theirBlocks.find(x => x.key === key)));
+
+  const config: any = {};
+  const conflicts: string[] = [];
+
+  for (const key of keys) {
+    const baseBlock = baseBlocks.find(x => x.key === key);
+    const myBlock = myBlocks.find(x => x.key === key);
+    const theirBlock = theirBlocks.find(x => x.key === key);
+
+    const baseValue = baseBlock ? JSON.stringify(baseBlock.value) : undefined;
+    const myValue = myBlock ? JSON.stringify(myBlock.value) : undefined;
+    const theirValue = theirBlock ? JSON.stringify(theirBlock.value) : undefined;
+
+    let block: ConfigBlock;
+    if (myValue === baseValue) {
+      block = theirBlock;
+    } else if (theirValue === baseValue || theirValue === myValue) {
+      block = myBlock;
+    } else {
+      block = myBlock;
+      conflicts.push((myBlock || theirBlock).label);
+    }
+
+    // the block was removed
+    if (!block) {
+      continue;
+    }
+
+    if (block.section === 'accessories' || block.section === 'platforms') {
+      config[block.section] = config[block.section] || [];
+      config[block.section].push(block.value);
+    } else {
+      config[block.section === 'other' ? key.substr('other:'.length) : block.section] = block.value;
+    }
+  }
+
+  // keep the usual order of the top level keys
+  const ordered: any = {};
+  for (const property of ['bridge', 'accessories', 'platforms', 'plugins'].concat(Object.keys(config))) {
+    if (config[property] !== undefined) {
+      ordered[property] = config[property];
+    }
+  }
+
+  return { config: ordered, conflicts };
+}
+
+function getConfigBlocks(config: any): ConfigBlock[] {
+  const blocks: ConfigBlock[] = [];
+
+  if (typeof config !== 'object' || config === null) {
+    return blocks;
+  }
+
+  if (config.bridge !== undefined) {
+    blocks.push({ key: 'bridge', section: 'bridge', label: 'Bridge', value: config.bridge });
+  }
+
+  const sections: Array<['accessories' | 'platforms', string]> = [['accessories', 'accessory'], ['platforms', 'platform']];
+
+  for (const [section, typeKey] of sections) {
+    if (!Array.isArray(config[section])) {
+      continue;
+    }
+
+    const seen = new Map<string, number>();
+    for (const block of config[section]) {
+      const type = (block && block[typeKey]) || '';
+      const name = (block && block.name) || '';
+
+      // blocks with the same type and name are matched in the order they appear
+      let key = `${typeKey}:${type}:${name}`;
+      seen.set(key, (seen.get(key) || 0) + 1);
+      if (seen.get(key) > 1) {
+        key += `#${seen.get(key)}`;
+      }
+
+      blocks.push({ key, section, label: name && name !== type ? `${name} (${type})` : type || name, value: block });
+    }
+  }
+
+  if (config.plugins !== undefined) {
+    blocks.push({ key: 'plugins', section: 'plugins', label: 'Plugins', value: config.plugins });
+  }
+
+  for (const property of Object.keys(config).filter(x => !['bridge', 'accessories', 'platforms', 'plugins'].includes(x))) {
+    blocks.push({ key: `other:${property}`, section: 'other', label: property, value: config[property] });
+  }
+
+  return blocks;
+}
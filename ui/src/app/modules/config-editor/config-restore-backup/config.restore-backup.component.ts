@@ -4,6 +4,16 @@ import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
 import { ToastrService } from 'ngx-toastr';
 import { ApiService } from '../../../core/api.service';
 
+interface ConfigBlockDiff {
+  key: string;
+  section: 'bridge' | 'accessories' | 'platforms' | 'plugins' | 'other';
+  label: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  from?: any;
+  to?: any;
+  changes: Array<{ path: string, type: 'added' | 'removed' | 'changed', from?: any, to?: any }>;
+}
+
 @Component({
   selector: 'app-config.restore-backup',
   templateUrl: './config.restore-backup.component.html',
@@ -15,6 +25,13 @@ export class ConfigRestoreBackupComponent implements OnInit {
     file: string,
   }[];
 
+  public diffBackupId: string;
+  public diffCompareTo = 'current';
+  public diffBlocks: ConfigBlockDiff[];
+  public showUnchanged = false;
+  public selectedKeys: { [key: string]: boolean } = {};
+  public restoreInProgress = false;
+
   constructor(
     public activeModal: NgbActiveModal,
     private translate: TranslateService,
@@ -33,6 +50,61 @@ export class ConfigRestoreBackupComponent implements OnInit {
     return this.activeModal.close(backupId);
   }
 
+  compare(backupId: string, compareTo = 'current') {
+    this.diffBackupId = backupId;
+    this.diffCompareTo = compareTo;
+    this.diffBlocks = null;
+    this.selectedKeys = {};
+
+    this.$api.get(`/config-editor/backups/${backupId}/diff`, { params: { compareTo } }).subscribe(
+      (data) => this.diffBlocks = data.blocks,
+      (err) => this.$toastr.error(err.error.message, this.translate.instant('config.restore.toast_failed_to_compare_backup')),
+    );
+  }
+
+  closeCompare() {
+    this.diffBackupId = null;
+    this.diffBlocks = null;
+  }
+
+  get visibleDiffBlocks() {
+    return (this.diffBlocks || []).filter(x => this.showUnchanged || x.status !== 'unchanged');
+  }
+
+  get selectedCount() {
+    return Object.keys(this.selectedKeys).filter(key => this.selectedKeys[key]).length;
+  }
+
+  formatBlock(value: any) {
+    return value === undefined ? '' : JSON.stringify(value, null, 2);
+  }
+
+  /**
+   * Restore the selected blocks from the backup into the current config
+   * The modal is closed with the updated config so the editor can show it
+   */
+  restoreSelected() {
+    const keys = Object.keys(this.selectedKeys).filter(key => this.selectedKeys[key]);
+    if (!keys.length) {
+      return;
+    }
+
+    this.restoreInProgress = true;
+    this.$api.post(`/config-editor/backups/${this.diffBackupId}/restore`, { keys }).subscribe(
+      (config) => {
+        this.$toastr.success(
+          this.translate.instant('config.restore.toast_sections_restored'),
+          this.translate.instant('toast.title_success'),
+        );
+        this.activeModal.close({ config });
+      },
+      (err) => {
+        this.restoreInProgress = false;
+        this.$toastr.error(err.error.message, this.translate.instant('config.restore.toast_failed_to_restore_sections'));
+      },
+    );
+  }
+
   deleteAllBackups() {
     return this.$api.delete('/config-editor/backups').subscribe(
       (data) => {
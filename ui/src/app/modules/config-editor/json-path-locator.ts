@@ -0,0 +1,166 @@
+export interface JsonPathLocation {
+  row: number;
+  column: number;
+  endRow: number;
+}
+
+/**
+ * Find where each value in a JSON document starts and ends, keyed by it's path (eg. platforms[0].name)
+ * Object properties start at their key, array items start at the start of the item
+ * The paths are in the same format as the errors returned by the server config validation
+ * Returns an empty map if the document is not valid JSON
+ * @param text
+ */
+export function locateJsonPaths(text: string): Map<string, JsonPathLocation> {
+  const offsets = new Map<string, number>();
+  const ends = new Map<string, number>();
+  let i = 0;
+
+  const fail = () => {
+    throw new Error(`Unexpected token at position ${i}`);
+  };
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) {
+      i++;
+    }
+  };
+
+  const parseString = (): string => {
+    const start = i;
+    i++;
+    while (i < text.length && text[i] !== '"') {
+      i += (text[i] === '\\') ? 2 : 1;
+    }
+    if (i >= text.length) {
+      fail();
+    }
+    i++;
+    return JSON.parse(text.slice(start, i));
+  };
+
+  const parseValue = (path: string) => {
+    skipWhitespace();
+
+    if (text[i] === '{') {
+      i++;
+      skipWhitespace();
+      if (text[i] === '}') {
+        i++;
+        return;
+      }
+      while (i < text.length) {
+        skipWhitespace();
+        if (text[i] !== '"') {
+          fail();
+        }
+        const keyStart = i;
+        const childPath = joinJsonPath(path, parseString());
+        skipWhitespace();
+        if (text[i] !== ':') {
+          fail();
+        }
+        i++;
+        offsets.set(childPath, keyStart);
+        parseValue(childPath);
+        ends.set(childPath, i);
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+        } else if (text[i] === '}') {
+          i++;
+          return;
+        } else {
+          fail();
+        }
+      }
+      fail();
+    } else if (text[i] === '[') {
+      i++;
+      skipWhitespace();
+      if (text[i] === ']') {
+        i++;
+        return;
+      }
+      let index = 0;
+      while (i < text.length) {
+        skipWhitespace();
+        const childPath = `${path}[${index++}]`;
+        offsets.set(childPath, i);
+        parseValue(childPath);
+        ends.set(childPath, i);
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+        } else if (text[i] === ']') {
+          i++;
+          return;
+        } else {
+          fail();
+        }
+      }
+      fail();
+    } else if (text[i] === '"') {
+      parseString();
+    } else {
+      const start = i;
+      while (i < text.length && !/[\s,\]}]/.test(text[i])) {
+        i++;
+      }
+      if (start === i) {
+        fail();
+      }
+    }
+  };
+
+  try {
+    offsets.set('', 0);
+    parseValue('');
+    ends.set('', i);
+  } catch (e) {
+    return new Map();
+  }
+
+  // convert the offsets into a row and column
+  const lineStarts = [0];
+  for (let c = 0; c < text.length; c++) {
+    if (text[c] === '\n') {
+      lineStarts.push(c + 1);
+    }
+  }
+
+  const rowAt = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  };
+
+  // the offsets were added in the order they appear in the document
+  const locations = new Map<string, JsonPathLocation>();
+  offsets.forEach((offset, path) => {
+    const row = rowAt(offset);
+    locations.set(path, { row, column: offset - lineStarts[row], endRow: rowAt(Math.max(ends.get(path) - 1, offset)) });
+  });
+
+  return locations;
+}
+
+/**
+ * Keys that are not valid identifiers are written in bracket notation, eg. platforms[0]["my-key"]
+ * @param path
+ * @param key
+ */
+export function joinJsonPath(path: string, key: string): string {
+  if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}[${JSON.stringify(key)}]`;
+}
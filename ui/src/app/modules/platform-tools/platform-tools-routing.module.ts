@@ -1,5 +1,6 @@
 import { NgModule } from '@angular/core';
 import { Routes, RouterModule } from '@angular/router';
+import { PermissionGuard } from '../../core/auth/permission.guard';
 
 const routes: Routes = [
   {
@@ -10,14 +11,20 @@ const routes: Routes = [
   {
     path: 'docker',
     loadChildren: () => import('./docker/docker.module').then(m => m.DockerModule),
+    canActivate: [PermissionGuard],
+    data: { permission: 'platform:manage' },
   },
   {
     path: 'linux',
     loadChildren: () => import('./linux/linux.module').then(m => m.LinuxModule),
+    canActivate: [PermissionGuard],
+    data: { permission: 'platform:manage' },
   },
   {
     path: 'terminal',
     loadChildren: () => import('./terminal/terminal.module').then(m => m.TerminalModule),
+    canActivate: [PermissionGuard],
+    data: { permission: 'terminal:access' },
   },
 ];
 
@@ -18,6 +18,7 @@ export class InstalledPluginsComponent implements OnInit, OnDestroy {
   public form: FormGroup;
   public installedPlugins: any = [];
   public loading = true;
+  public updatesAvailable = false;
   public searchQuery: string;
   private navigationSubscription;
 
@@ -49,10 +50,12 @@ export class InstalledPluginsComponent implements OnInit, OnDestroy {
 
   loadInstalledPlugins() {
     this.installedPlugins = [];
+    this.updatesAvailable = false;
     this.loading = true;
     this.$api.get(`/plugins`).subscribe(
       (data: any) => {
         this.installedPlugins = data.sort(x => !x.update);
+        this.updatesAvailable = this.installedPlugins.some(x => x.updateAvailable);
         this.loading = false;
       },
       (err) => {
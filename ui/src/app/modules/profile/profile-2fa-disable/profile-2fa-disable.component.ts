@@ -0,0 +1,44 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+
+import { ApiService } from '../../../core/api.service';
+
+@Component({
+  selector: 'app-profile-2fa-disable',
+  templateUrl: './profile-2fa-disable.component.html',
+})
+export class Profile2faDisableComponent implements OnInit {
+  form: FormGroup;
+  invalidPassword = false;
+
+  constructor(
+    public activeModal: NgbActiveModal,
+    public toastr: ToastrService,
+    private translate: TranslateService,
+    private $api: ApiService,
+    public $fb: FormBuilder,
+  ) { }
+
+  ngOnInit() {
+    this.form = this.$fb.group({
+      password: ['', Validators.required],
+    });
+  }
+
+  onSubmit({ value, valid }) {
+    this.invalidPassword = false;
+    this.$api.post('/users/otp/deactivate', { password: value.password }).subscribe(
+      data => {
+        this.activeModal.close();
+        this.toastr.success(this.translate.instant('users.toast_2fa_disabled'), this.translate.instant('toast.title_success'));
+      },
+      err => {
+        this.invalidPassword = true;
+      },
+    );
+  }
+
+}
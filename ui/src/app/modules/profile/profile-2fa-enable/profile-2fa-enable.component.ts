@@ -0,0 +1,63 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+
+import { ApiService } from '../../../core/api.service';
+
+@Component({
+  selector: 'app-profile-2fa-enable',
+  templateUrl: './profile-2fa-enable.component.html',
+})
+export class Profile2faEnableComponent implements OnInit {
+  form: FormGroup;
+  secret: string;
+  qrcode: SafeHtml;
+  recoveryCodes: string[];
+  invalidCode = false;
+
+  constructor(
+    public activeModal: NgbActiveModal,
+    public toastr: ToastrService,
+    private translate: TranslateService,
+    private $api: ApiService,
+    private $sanitizer: DomSanitizer,
+    public $fb: FormBuilder,
+  ) { }
+
+  ngOnInit() {
+    this.form = this.$fb.group({
+      code: ['', [Validators.required, Validators.pattern(/^\s*\d{3}\s*\d{3}\s*$/)]],
+    });
+
+    this.$api.post('/users/otp/setup', {}).subscribe(
+      data => {
+        this.secret = data.secret;
+        this.qrcode = this.$sanitizer.bypassSecurityTrustHtml(data.qrcode);
+      },
+      err => {
+        this.activeModal.dismiss();
+        this.toastr.error(
+          err.error.message || this.translate.instant('users.toast_failed_to_setup_2fa'),
+          this.translate.instant('toast.title_error'),
+        );
+      },
+    );
+  }
+
+  onSubmit({ value, valid }) {
+    this.invalidCode = false;
+    this.$api.post('/users/otp/activate', { code: value.code }).subscribe(
+      data => {
+        this.recoveryCodes = data.recoveryCodes;
+        this.toastr.success(this.translate.instant('users.toast_2fa_enabled'), this.translate.instant('toast.title_success'));
+      },
+      err => {
+        this.invalidCode = true;
+      },
+    );
+  }
+
+}
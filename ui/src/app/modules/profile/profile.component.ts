@@ -0,0 +1,150 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators, AbstractControl } from '@angular/forms';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+
+import { Profile2faEnableComponent } from './profile-2fa-enable/profile-2fa-enable.component';
+import { Profile2faDisableComponent } from './profile-2fa-disable/profile-2fa-disable.component';
+import { ApiService } from '../../core/api.service';
+import { AuthService } from '../../core/auth/auth.service';
+
+@Component({
+  selector: 'app-profile',
+  templateUrl: './profile.component.html',
+})
+export class ProfileComponent implements OnInit {
+  public profile: any = {};
+  public profileForm: FormGroup;
+  public passwordForm: FormGroup;
+  public invalidPassword = false;
+
+  constructor(
+    public toastr: ToastrService,
+    private translate: TranslateService,
+    private modalService: NgbModal,
+    private $api: ApiService,
+    private $fb: FormBuilder,
+    public $auth: AuthService,
+  ) { }
+
+  ngOnInit() {
+    this.profileForm = this.$fb.group({
+      name: ['', Validators.required],
+    });
+
+    this.passwordForm = this.$fb.group({
+      currentPassword: ['', Validators.required],
+      newPassword: ['', [Validators.required, Validators.minLength(4)]],
+      passwordConfirm: [''],
+    }, {
+        validator: this.matchPassword,
+      });
+
+    this.reloadProfile();
+  }
+
+  matchPassword(AC: AbstractControl) {
+    const password = AC.get('newPassword').value;
+    const passwordConfirm = AC.get('passwordConfirm').value;
+    if (password !== passwordConfirm) {
+      AC.get('passwordConfirm').setErrors({ matchPassword: true });
+    } else {
+      return null;
+    }
+  }
+
+  reloadProfile() {
+    return this.$api.get('/users/me').subscribe(
+      (result) => {
+        this.profile = result;
+        this.profileForm.patchValue(result);
+      },
+    );
+  }
+
+  updateProfile({ value, valid }) {
+    this.$api.patch('/users/me', { name: value.name }).subscribe(
+      (result) => {
+        this.profile = result;
+        this.toastr.success(this.translate.instant('profile.toast_profile_updated'), this.translate.instant('toast.title_success'));
+
+        // get a new access token so the updated name is shown straight away
+        this.$auth.refreshToken().catch(() => { /* the old name will be shown until the token is next refreshed */ });
+      },
+      (err) => {
+        this.toastr.error(this.translate.instant('profile.toast_failed_to_update_profile'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+  changePassword({ value, valid }) {
+    this.invalidPassword = false;
+    this.$api.post('/users/me/password', { currentPassword: value.currentPassword, newPassword: value.newPassword }).subscribe(
+      (result) => {
+        this.passwordForm.reset();
+        this.toastr.success(this.translate.instant('profile.toast_password_changed'), this.translate.instant('toast.title_success'));
+      },
+      (err) => {
+        if (err.status === 403) {
+          this.invalidPassword = true;
+        } else {
+          this.toastr.error(err.error.message || this.translate.instant('profile.toast_failed_to_change_password'),
+            this.translate.instant('toast.title_error'));
+        }
+      },
+    );
+  }
+
+  openEnable2fa() {
+    const ref = this.modalService.open(Profile2faEnableComponent, {
+      size: 'lg',
+      backdrop: 'static',
+    });
+
+    ref.result.finally(() => {
+      this.reloadProfile();
+    });
+  }
+
+  openDisable2fa() {
+    const ref = this.modalService.open(Profile2faDisableComponent, {
+      size: 'lg',
+    });
+
+    ref.result.finally(() => {
+      this.reloadProfile();
+    });
+  }
+
+  logoutEverywhere() {
+    this.$auth.logoutEverywhere().catch(() => {
+      this.toastr.error(this.translate.instant('users.toast_failed_to_update_user'), this.translate.instant('toast.title_error'));
+    });
+  }
+
+  linkOidc() {
+    // the link is completed when the provider sends the browser back to the login page
+    this.$api.post('/auth/oidc/link', {}).subscribe(
+      (result) => {
+        window.location.href = result.url;
+      },
+      (err) => {
+        this.toastr.error(this.translate.instant('profile.toast_failed_to_link_oidc'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+  unlinkOidc() {
+    this.$api.delete('/auth/oidc/link').subscribe(
+      (result) => {
+        this.toastr.success(this.translate.instant('profile.toast_oidc_unlinked'), this.translate.instant('toast.title_success'));
+        this.reloadProfile();
+      },
+      (err) => {
+        this.toastr.error(this.translate.instant('users.toast_failed_to_update_user'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+}
@@ -0,0 +1,31 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { ProfileRoutingModule } from './profile-routing.module';
+import { ProfileComponent } from './profile.component';
+import { Profile2faEnableComponent } from './profile-2fa-enable/profile-2fa-enable.component';
+import { Profile2faDisableComponent } from './profile-2fa-disable/profile-2fa-disable.component';
+import { TranslateModule } from '@ngx-translate/core';
+import { FormsModule, ReactiveFormsModule } from '@angular/forms';
+import { NgbModule } from '@ng-bootstrap/ng-bootstrap';
+
+@NgModule({
+  entryComponents: [
+    Profile2faEnableComponent,
+    Profile2faDisableComponent,
+  ],
+  declarations: [
+    ProfileComponent,
+    Profile2faEnableComponent,
+    Profile2faDisableComponent,
+  ],
+  imports: [
+    CommonModule,
+    FormsModule,
+    ReactiveFormsModule,
+    TranslateModule.forChild(),
+    NgbModule,
+    ProfileRoutingModule,
+  ],
+})
+export class ProfileModule { }
@@ -31,6 +31,7 @@ export class StatusComponent implements OnInit, OnDestroy {
   public server: HomebridgeStatus = {};
   public stats: any = {};
   public homebridge: any = {};
+  public backupStatus: any = {};
   public outOfDatePlugins: Array<any> = [];
 
   public loadedQrCode = false;
@@ -64,6 +65,10 @@ export class StatusComponent implements OnInit, OnDestroy {
       this.stats = data;
     });
 
+    this.io.socket.on('backup-status', (data) => {
+      this.backupStatus = data;
+    });
+
     this.io.socket.on('homebridge-status', (data) => {
       this.server = data;
       this.getQrCodeImage();
@@ -13,6 +13,7 @@ import { ApiService } from '../../../core/api.service';
 })
 export class UsersAddComponent implements OnInit {
   form: FormGroup;
+  roles = ['admin', 'operator', 'viewer'];
   page = {
     title: 'users.title_add_user',
     save: 'users.button_add_new_user',
@@ -33,7 +34,7 @@ export class UsersAddComponent implements OnInit {
       name: ['', Validators.required],
       password: ['', Validators.compose([Validators.required, Validators.minLength(4)])],
       passwordConfirm: ['', Validators.required],
-      admin: [true],
+      role: ['admin'],
     }, {
         validator: this.matchPassword,
       });
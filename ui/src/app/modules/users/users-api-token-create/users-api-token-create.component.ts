@@ -0,0 +1,60 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { TranslateService } from '@ngx-translate/core';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ToastrService } from 'ngx-toastr';
+
+import { ApiService } from '../../../core/api.service';
+import { AuthService } from '../../../core/auth/auth.service';
+
+@Component({
+  selector: 'app-users-api-token-create',
+  templateUrl: './users-api-token-create.component.html',
+})
+export class UsersApiTokenCreateComponent implements OnInit {
+  form: FormGroup;
+  scopes: string[] = [];
+  token: string;
+
+  constructor(
+    public activeModal: NgbActiveModal,
+    public toastr: ToastrService,
+    private translate: TranslateService,
+    private $api: ApiService,
+    private $auth: AuthService,
+    public $fb: FormBuilder,
+  ) { }
+
+  ngOnInit() {
+    // a token can only be granted the permissions the user has
+    this.scopes = this.$auth.user.permissions || [];
+
+    const scopeControls = {};
+    this.scopes.forEach((scope) => {
+      scopeControls[scope] = [false];
+    });
+
+    this.form = this.$fb.group({
+      name: ['', Validators.required],
+      scopes: this.$fb.group(scopeControls),
+    });
+  }
+
+  get selectedScopes() {
+    return this.scopes.filter(scope => this.form.value.scopes[scope]);
+  }
+
+  onSubmit({ value, valid }) {
+    this.$api.post('/users/api-tokens', { name: value.name, scopes: this.selectedScopes }).subscribe(
+      data => {
+        this.token = data.token;
+        this.toastr.success(this.translate.instant('users.toast_api_token_created'), this.translate.instant('toast.title_success'));
+      },
+      err => {
+        this.toastr.error(err.error.message || this.translate.instant('users.toast_failed_to_create_api_token'),
+          this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+}
@@ -14,6 +14,7 @@ import { ApiService } from '../../../core/api.service';
 export class UsersEditComponent implements OnInit {
   @Input() user;
   form: FormGroup;
+  roles = ['admin', 'operator', 'viewer'];
   page = {
     title: 'users.title_edit_user',
     save: 'form.button_save',
@@ -34,7 +35,7 @@ export class UsersEditComponent implements OnInit {
       name: ['', Validators.required],
       password: ['', Validators.minLength(4)],
       passwordConfirm: [''],
-      admin: [true],
+      role: ['admin'],
     }, {
         validator: this.matchPassword,
       });
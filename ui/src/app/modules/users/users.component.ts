@@ -6,7 +6,9 @@ import { ToastrService } from 'ngx-toastr';
 
 import { UsersAddComponent } from './users-add/users-add.component';
 import { UsersEditComponent } from './users-edit/users-edit.component';
+import { UsersApiTokenCreateComponent } from './users-api-token-create/users-api-token-create.component';
 import { ApiService } from '../../core/api.service';
+import { AuthService } from '../../core/auth/auth.service';
 
 
 @Component({
@@ -15,6 +17,7 @@ import { ApiService } from '../../core/api.service';
 })
 export class UsersComponent implements OnInit {
   public homebridgeUsers: Array<any>;
+  public apiTokens: Array<any> = [];
 
   constructor(
     public toastr: ToastrService,
@@ -22,6 +25,7 @@ export class UsersComponent implements OnInit {
     private modalService: NgbModal,
     private $api: ApiService,
     private $route: ActivatedRoute,
+    public $auth: AuthService,
   ) { }
 
   ngOnInit() {
@@ -29,6 +33,8 @@ export class UsersComponent implements OnInit {
       .subscribe((data: { homebridgeUsers: Array<any> }) => {
         this.homebridgeUsers = data.homebridgeUsers;
       });
+
+    this.reloadApiTokens();
   }
 
   reloadUsers() {
@@ -39,6 +45,14 @@ export class UsersComponent implements OnInit {
     );
   }
 
+  reloadApiTokens() {
+    return this.$api.get('/users/api-tokens').subscribe(
+      (result) => {
+        this.apiTokens = result;
+      },
+    );
+  }
+
   openAddNewUser() {
     const ref = this.modalService.open(UsersAddComponent, {
       size: 'lg',
@@ -60,6 +74,52 @@ export class UsersComponent implements OnInit {
     });
   }
 
+  reset2fa(user) {
+    this.$api.patch(`/users/${user.id}`, { otpActive: false }).subscribe(
+      data => {
+        this.toastr.success(this.translate.instant('users.toast_2fa_disabled'), this.translate.instant('toast.title_success'));
+        this.reloadUsers();
+      },
+      err => {
+        this.toastr.error(this.translate.instant('users.toast_failed_to_update_user'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+  revokeSessions(user) {
+    this.$api.delete(`/users/${user.id}/sessions`).subscribe(
+      data => {
+        this.toastr.success(this.translate.instant('users.toast_sessions_revoked'), this.translate.instant('toast.title_success'));
+      },
+      err => {
+        this.toastr.error(this.translate.instant('users.toast_failed_to_update_user'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
+  openCreateApiToken() {
+    const ref = this.modalService.open(UsersApiTokenCreateComponent, {
+      size: 'lg',
+      backdrop: 'static',
+    });
+
+    ref.result.finally(() => {
+      this.reloadApiTokens();
+    });
+  }
+
+  revokeApiToken(apiToken) {
+    this.$api.delete(`/users/api-tokens/${apiToken.id}`).subscribe(
+      data => {
+        this.toastr.success(this.translate.instant('users.toast_api_token_revoked'), this.translate.instant('toast.title_success'));
+        this.reloadApiTokens();
+      },
+      err => {
+        this.toastr.error(this.translate.instant('users.toast_failed_to_revoke_api_token'), this.translate.instant('toast.title_error'));
+      },
+    );
+  }
+
   deleteUser(id) {
     this.$api.delete(`/users/${id}`).subscribe(
       data => {
@@ -5,6 +5,7 @@ import { UsersRoutingModule } from './users-routing.module';
 import { UsersComponent } from './users.component';
 import { UsersAddComponent } from './users-add/users-add.component';
 import { UsersEditComponent } from './users-edit/users-edit.component';
+import { UsersApiTokenCreateComponent } from './users-api-token-create/users-api-token-create.component';
 import { UsersResolver } from './users.resolver';
 import { TranslateModule } from '@ngx-translate/core';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
@@ -14,11 +15,13 @@ import { NgbModule } from '@ng-bootstrap/ng-bootstrap';
   entryComponents: [
     UsersAddComponent,
     UsersEditComponent,
+    UsersApiTokenCreateComponent,
   ],
   declarations: [
     UsersComponent,
     UsersAddComponent,
     UsersEditComponent,
+    UsersApiTokenCreateComponent,
   ],
   imports: [
     CommonModule,
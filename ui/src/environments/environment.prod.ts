@@ -7,6 +7,7 @@ export const environment = {
   },
   jwt: {
     tokenKey: 'access_token',
+    refreshTokenKey: 'refresh_token',
     whitelistedDomains: [document.location.host],
     blacklistedRoutes: [`${document.location.host}/api/auth/login`],
   },
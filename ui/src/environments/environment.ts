@@ -11,6 +11,7 @@ export const environment = {
   },
   jwt: {
     tokenKey: 'access_token',
+    refreshTokenKey: 'refresh_token',
     whitelistedDomains: ['localhost:8080'],
     blacklistedRoutes: ['localhost:8080/api/auth/login'],
   },